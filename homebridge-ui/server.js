@@ -0,0 +1,4 @@
+// Entry point loaded by Homebridge Config UI X; the implementation lives in src/uiServer.ts.
+const { startUiServer } = require('../dist/uiServer');
+
+startUiServer();
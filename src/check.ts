@@ -0,0 +1,367 @@
+import type { Logger } from 'homebridge';
+import type {
+  LocationConfig,
+  ProviderConfig,
+  RainAccessoryConfig,
+  RainSwitchPlatformConfig,
+  WeatherAlert,
+  WeatherForecastSlice,
+  WeatherNowcast,
+} from './types';
+import { resolveLocation, type ResolvedLocation } from './util/geo';
+import { makeHttpClient } from './util/http';
+import { collectCallBudgets, makeQuotaTracker, type QuotaTracker } from './util/quota';
+import { makeProviderChain, type ProviderChain } from './providers/provider';
+import { makeRainfallLog, type RainfallLog } from './util/rainfall';
+import { isWithinQuietHours, makeSchedule, parseQuietHours } from './util/schedule';
+import { compileRule, describeRuleError, RuleSyntaxError } from './util/rule';
+import {
+  DEFAULT_INTENSITY_THRESHOLD,
+  DEFAULT_LOOKAHEAD_MINUTES,
+  DEFAULT_POP_THRESHOLD,
+  DEFAULT_RAIN_THRESHOLD,
+  DEFAULT_SNOW_THRESHOLD,
+  activeThreshold,
+  forecastMinutesFor,
+  irrigationDelayHours,
+  isRainingNow,
+  isSnowingNow,
+  matchForecast,
+  measureDrySpell,
+  measureIrrigationRain,
+  measureRainTotal,
+  precipTypesFor,
+  selectAlert,
+} from './util/decision';
+import { makeUnitFormatter, normaliseAccessoryUnits, type UnitFormatter } from './util/units';
+import { parsePrecipTypes } from './util/precip';
+import { DEFAULT_LOCATION_KEY } from './site';
+
+export const PROVIDER_MODES = ['weatherkit', 'openweathermap', 'nws', 'tomorrow', 'openmeteo', 'simulated'] as const;
+export type ProviderMode = typeof PROVIDER_MODES[number];
+
+const DEFAULT_TIMELINE_MINUTES = 60;
+
+export interface CheckOptions {
+  location?: string;
+  provider?: ProviderMode;
+  minutes?: number;
+}
+
+export interface AccessoryVerdict {
+  name: string;
+  type: RainAccessoryConfig['type'];
+  on: boolean | null;
+  reason: string;
+  notes: string[];
+  // Minutes until the forecast slice that triggered a rain-soon or snow-mode accessory.
+  triggerMinutes?: number;
+}
+
+export interface LocationReport {
+  key: string;
+  location: ResolvedLocation | null;
+  providers: string;
+  nowcast: WeatherNowcast | null;
+  forecast: WeatherForecastSlice[];
+  accessories: AccessoryVerdict[];
+  error?: string;
+}
+
+export interface ProviderCheck {
+  provider: ProviderMode;
+  supported: boolean;
+  nowcast: WeatherNowcast | null;
+  error?: string;
+}
+
+interface SiteConfig {
+  key: string;
+  location: LocationConfig | undefined;
+  provider: ProviderConfig | undefined;
+}
+
+interface EvaluationContext {
+  weather: WeatherNowcast;
+  now: number;
+  location: ResolvedLocation | null;
+  units: UnitFormatter;
+  forecast: WeatherForecastSlice[];
+  alerts(): Promise<WeatherAlert[]>;
+  rainfallMm(windowHours: number): number;
+}
+
+// Runs the plugin's location lookup and provider chain for each location that has
+// accessories and reports what every accessory would do right now.
+export const checkConfig = async (
+  log: Logger,
+  config: RainSwitchPlatformConfig,
+  storagePath: string,
+  options: CheckOptions = {},
+): Promise<LocationReport[]> => {
+  const sites = listSites(log, config);
+  if (options.location && !sites.some((site) => site.key === options.location)) {
+    throw new Error(`Unknown location "${options.location}"; configured: ${sites.map((site) => site.key).join(', ')}`);
+  }
+  const units = makeUnitFormatter(config.units);
+  const accessories = (config.accessories ?? [])
+    .filter((accessory) => accessory.enabled !== false)
+    .map((accessory) => {
+      const warn = (message: string): void => log.warn('%s %s', accessory.name, message);
+      return { ...normaliseAccessoryUnits(accessory, units.system, warn), precipTypes: parsePrecipTypes(accessory.precipTypes, warn) };
+    });
+  const siteKeyFor = (accessory: RainAccessoryConfig): string => {
+    const key = accessory.location ?? DEFAULT_LOCATION_KEY;
+    return sites.some((site) => site.key === key) ? key : DEFAULT_LOCATION_KEY;
+  };
+
+  // Checks spend the same call budgets as the running plugin.
+  const quota = makeQuotaTracker(log, storagePath, collectCallBudgets(config));
+  await quota.load();
+  const reports: LocationReport[] = [];
+  for (const site of sites) {
+    const siteAccessories = accessories.filter((accessory) => siteKeyFor(accessory) === site.key);
+    // Without a filter, locations nobody uses are skipped just like the plugin does.
+    if (options.location ? site.key !== options.location : !siteAccessories.length) {
+      continue;
+    }
+    const provider = options.provider ? { ...site.provider, mode: options.provider } : site.provider;
+    reports.push(await checkLocation(log, config, storagePath, quota, site.key, site.location, provider, siteAccessories, options));
+  }
+  return reports;
+};
+
+// Tries every provider on its own so each one's credentials can be judged separately.
+export const checkProviders = async (
+  log: Logger,
+  config: RainSwitchPlatformConfig,
+  storagePath: string,
+  locationKey = DEFAULT_LOCATION_KEY,
+): Promise<{ location: ResolvedLocation | null; providers: ProviderCheck[] }> => {
+  const site = listSites(log, config).find((entry) => entry.key === locationKey);
+  if (!site) {
+    throw new Error(`Unknown location "${locationKey}"`);
+  }
+  const timeoutMs = config.polling?.timeoutMs ?? 5000;
+  const http = makeHttpClient(log, { contact: config.advanced?.userAgentContact });
+  const quota = makeQuotaTracker(log, storagePath, collectCallBudgets(config));
+  await quota.load();
+  const location = await resolveLocation(log, site.location, storagePath, timeoutMs, site.key === DEFAULT_LOCATION_KEY ? undefined : site.key, http);
+  const providers: ProviderCheck[] = [];
+  for (const provider of PROVIDER_MODES) {
+    let chain: ProviderChain;
+    try {
+      chain = makeProviderChain(log, { ...site.provider, mode: provider }, location, {
+        timeoutMs,
+        cacheTtlSeconds: 0,
+        retryBackoffSeconds: [0],
+        requestFor: (id) => quota.wrap(id, http),
+        quota,
+        storagePath,
+      });
+    } catch {
+      providers.push({ provider, supported: false, nowcast: null, error: 'Not configured or not available for this location' });
+      continue;
+    }
+    try {
+      providers.push({ provider, supported: true, nowcast: await chain.getNowcast(true) });
+    } catch (error) {
+      providers.push({ provider, supported: true, nowcast: null, error: (error as Error).message });
+    }
+  }
+  return { location, providers };
+};
+
+const listSites = (log: Logger, config: RainSwitchPlatformConfig): SiteConfig[] => {
+  const sites: SiteConfig[] = [{ key: DEFAULT_LOCATION_KEY, location: config.location, provider: config.provider }];
+  for (const named of config.locations ?? []) {
+    if (!named.key || sites.some((site) => site.key === named.key)) {
+      log.warn('Ignoring location with missing or duplicate key "%s"', named.key ?? '');
+      continue;
+    }
+    const { key, provider, ...location } = named;
+    sites.push({ key, location, provider: provider ?? config.provider });
+  }
+  return sites;
+};
+
+const checkLocation = async (
+  log: Logger,
+  config: RainSwitchPlatformConfig,
+  storagePath: string,
+  quota: QuotaTracker,
+  key: string,
+  locationConfig: LocationConfig | undefined,
+  providerConfig: ProviderConfig | undefined,
+  accessories: RainAccessoryConfig[],
+  options: CheckOptions,
+): Promise<LocationReport> => {
+  const timeoutMs = config.polling?.timeoutMs ?? 5000;
+  const http = makeHttpClient(log, { contact: config.advanced?.userAgentContact });
+  const report: LocationReport = { key, location: null, providers: '', nowcast: null, forecast: [], accessories: [] };
+  try {
+    report.location = await resolveLocation(log, locationConfig, storagePath, timeoutMs, key === DEFAULT_LOCATION_KEY ? undefined : key, http);
+    if (providerConfig?.mode === 'replay') {
+      log.warn('[%s] Replay mode is not supported here; querying the live providers instead', key);
+    }
+    const chain = makeProviderChain(log, providerConfig, report.location, {
+      timeoutMs,
+      cacheTtlSeconds: config.advanced?.cacheTtlSeconds ?? 60,
+      retryBackoffSeconds: [0],
+      requestFor: (id) => quota.wrap(id, http),
+      quota,
+      storagePath,
+    });
+    report.providers = chain.describe();
+    const lookaheads = accessories.map((accessory) => accessory.lookaheadMinutes ?? DEFAULT_LOOKAHEAD_MINUTES);
+    const timelineMinutes = options.minutes ?? Math.max(DEFAULT_TIMELINE_MINUTES, ...lookaheads);
+    // One snapshot for every accessory, as the running plugin does on each poll.
+    const snapshot = await chain.getSnapshot(Math.max(timelineMinutes, ...accessories.map(forecastMinutesFor)), true);
+    const weather = snapshot.nowcast;
+    report.nowcast = weather;
+    report.forecast = snapshot.forecast.filter((slice) => slice.minutesFromNow <= timelineMinutes);
+
+    const rainfallLog = await loadRainfallLog(log, storagePath, key);
+    const now = Date.now();
+    const context: EvaluationContext = {
+      weather,
+      now,
+      location: report.location,
+      units: makeUnitFormatter(config.units),
+      forecast: snapshot.forecast,
+      alerts: () => chain.getAlerts(),
+      rainfallMm: (windowHours) => rainfallLog.totalMm(windowHours * 3_600_000, now),
+    };
+    const quiet = isWithinQuietHours(parseQuietHours(config.advanced?.quietHours), now);
+    for (const accessory of accessories) {
+      report.accessories.push(await explainAccessory(log, accessory, context, quiet));
+    }
+  } catch (error) {
+    report.error = (error as Error).message;
+  }
+  return report;
+};
+
+// Mirrors RainAccessory.evaluate, minus the state a running plugin keeps between polls.
+const explainAccessory = async (
+  log: Logger,
+  config: RainAccessoryConfig,
+  context: EvaluationContext,
+  quiet: boolean,
+): Promise<AccessoryVerdict> => {
+  const verdict: AccessoryVerdict = { name: config.name, type: config.type, on: null, reason: '', notes: [] };
+  const { weather, now, units } = context;
+  try {
+    if (config.type === 'rain-now') {
+      const threshold = config.thresholdMmPerHr ?? DEFAULT_RAIN_THRESHOLD;
+      verdict.on = isRainingNow(config, weather);
+      verdict.reason = `now ${describeWeather(weather, units)}; needs ${describeTypes(config, 'rain')} at ${units.rate(threshold)} or more`;
+      if (config.offThresholdMmPerHr != null) {
+        verdict.notes.push(`Once ON, stays ON until intensity drops below ${units.rate(activeThreshold(config, threshold, true))}`);
+      }
+    } else if (config.type === 'rain-soon' || config.type === 'snow-mode') {
+      const target = config.type === 'rain-soon' ? 'rain' : 'snow';
+      const lookahead = config.lookaheadMinutes ?? DEFAULT_LOOKAHEAD_MINUTES;
+      const outcome = matchForecast(config, context.forecast, target);
+      const slice = outcome.triggeredSlice;
+      verdict.triggerMinutes = slice?.minutesFromNow;
+      const forecastReason = slice
+        ? `${slice.type} in ${slice.minutesFromNow} min at ${units.rate(slice.precipMmHr)}, PoP ${slice.pop ?? 0}%`
+        : `no ${describeTypes(config, target)} within ${lookahead} min reaching PoP ${config.popThreshold ?? DEFAULT_POP_THRESHOLD}% ` +
+          `and ${units.rate(config.intensityThresholdMmPerHr ?? DEFAULT_INTENSITY_THRESHOLD)}`;
+      if (config.type === 'snow-mode') {
+        const snowingNow = isSnowingNow(config, weather);
+        verdict.on = snowingNow || outcome.shouldActivate;
+        verdict.reason = snowingNow
+          ? `snowing now at ${units.rate(weather.precipMmHr)} (threshold ${units.rate(config.thresholdMmPerHr ?? DEFAULT_SNOW_THRESHOLD)})`
+          : forecastReason;
+      } else {
+        verdict.on = outcome.shouldActivate;
+        verdict.reason = forecastReason;
+      }
+    } else if (config.type === 'rain-total') {
+      const { windowHours, totalMm, thresholdMm, reached } = measureRainTotal(config, (windowHours) => context.rainfallMm(windowHours));
+      verdict.on = reached;
+      verdict.reason = `${units.depth(totalMm)} measured in the last ${windowHours}h (threshold ${units.depth(thresholdMm)})`;
+      verdict.notes.push('Totals come from the rainfall log the running plugin keeps in the storage path');
+    } else if (config.type === 'irrigation-skip') {
+      const rain = measureIrrigationRain(config, context.forecast, now, (windowHours) => context.rainfallMm(windowHours));
+      verdict.on = rain.pastTriggered || rain.forecastTriggered;
+      verdict.reason = `${units.depth(rain.pastMm)} in the last ${rain.pastWindowHours}h (threshold ${units.depth(rain.pastThresholdMm)}), ` +
+        `${units.depth(rain.forecastMm)} forecast in the next ${rain.forecastWindowHours}h (threshold ${units.depth(rain.forecastThresholdMm)})`;
+      if (verdict.on) {
+        verdict.notes.push(`Would delay irrigation for ${irrigationDelayHours(config)}h`);
+      } else {
+        verdict.notes.push('A delay started by earlier rain would still keep it ON');
+      }
+    } else if (config.type === 'dry-window') {
+      const lookahead = config.lookaheadMinutes ?? DEFAULT_LOOKAHEAD_MINUTES;
+      const { drySpellMinutes, isDry } = measureDrySpell(config, weather, context.forecast);
+      verdict.on = isDry;
+      verdict.reason = `dry for ${drySpellMinutes} min (needs ${lookahead} min)`;
+    } else if (config.type === 'alerts') {
+      const alert = selectAlert(config, await context.alerts(), now);
+      verdict.on = Boolean(alert);
+      verdict.reason = alert ? `${alert.severity} alert: ${alert.headline || alert.event}` : 'no matching alert';
+    } else if (config.type === 'custom') {
+      const source = config.rule?.trim() ?? '';
+      if (!source) {
+        verdict.reason = 'custom accessory has no rule';
+        return verdict;
+      }
+      try {
+        const rule = compileRule(source);
+        verdict.on = rule.evaluate({ now: weather, forecast: context.forecast, ts: now, rainfallMm: (windowHours) => context.rainfallMm(windowHours) });
+        verdict.reason = `rule ${source} is ${verdict.on ? 'true' : 'false'}`;
+      } catch (error) {
+        verdict.reason = error instanceof RuleSyntaxError
+          ? `invalid rule: ${describeRuleError(source, error)}`
+          : `rule could not be evaluated: ${(error as Error).message}`;
+      }
+    } else {
+      verdict.reason = `unknown accessory type "${String(config.type)}"`;
+    }
+  } catch (error) {
+    verdict.on = null;
+    verdict.reason = (error as Error).message;
+    return verdict;
+  }
+
+  if (config.schedule?.length) {
+    const schedule = makeSchedule(config.schedule, (message) => log.warn('%s %s', config.name, message));
+    const behaviour = schedule.activeBehaviour(now, context.location);
+    if (behaviour === 'on' || behaviour === 'off') {
+      verdict.notes.push(`Schedule forces it ${behaviour.toUpperCase()}, overriding the weather (${verdict.on ? 'ON' : 'OFF'})`);
+      verdict.on = behaviour === 'on';
+    } else if (behaviour === 'hold') {
+      verdict.notes.push('Schedule hold keeps whatever state it already has');
+    }
+  }
+  if (quiet) {
+    verdict.notes.push('Quiet hours keep whatever state it already has');
+  }
+  return verdict;
+};
+
+export const describeWeather = (weather: WeatherNowcast, units: UnitFormatter): string => {
+  const parts = [weather.type === 'none' ? 'dry' : weather.type, units.rate(weather.precipMmHr)];
+  if (weather.pop != null) {
+    parts.push(`PoP ${Math.round(weather.pop)}%`);
+  }
+  if (weather.temperatureC != null) {
+    parts.push(units.temperature(weather.temperatureC));
+  }
+  return parts.join(', ');
+};
+
+// Accessories on the default types are described by their target; custom lists are spelled out.
+const describeTypes = (config: RainAccessoryConfig, target: 'rain' | 'snow'): string => {
+  return config.precipTypes?.length ? precipTypesFor(config, target).join(' or ') : target;
+};
+
+const loadRainfallLog = async (log: Logger, storagePath: string, key: string): Promise<RainfallLog> => {
+  const storeName = key === DEFAULT_LOCATION_KEY ? 'rainfall.json' : `rainfall-${key}.json`;
+  const rainfallLog = makeRainfallLog(log, storagePath, 7 * 24 * 3_600_000, storeName);
+  await rainfallLog.load();
+  return rainfallLog;
+};
@@ -0,0 +1,227 @@
+#!/usr/bin/env node
+import { readFile } from 'fs/promises';
+import { homedir } from 'os';
+import path from 'path';
+import { format } from 'util';
+import type { Logger } from 'homebridge';
+import type { RainSwitchPlatformConfig } from './types';
+import { checkConfig, describeWeather, PROVIDER_MODES, type CheckOptions, type LocationReport, type ProviderMode } from './check';
+import { makeUnitFormatter, type UnitFormatter } from './util/units';
+import { PLATFORM_NAME, PLUGIN_NAME, PLUGIN_VERSION } from './version';
+
+const USAGE = `Usage: rain-switch-check [options] [config.json]
+
+Loads a Homebridge config, queries the configured weather providers and shows
+what every ${PLATFORM_NAME} accessory would do right now, without starting Homebridge.
+
+Options:
+  -c, --config <path>     Homebridge config.json (default: ~/.homebridge/config.json)
+  -s, --storage <path>    Homebridge storage path (default: the config's directory)
+  -l, --location <key>    Only check one location ("default" for the main one)
+  -p, --provider <name>   Only use this provider: ${PROVIDER_MODES.join(', ')}
+  -m, --minutes <n>       Length of the forecast timeline to print (default: longest lookahead)
+      --json              Print a machine-readable report
+  -v, --verbose           Show debug logging from providers
+  -h, --help              Show this help
+`;
+
+interface CliOptions extends CheckOptions {
+  config: string;
+  storage?: string;
+  json: boolean;
+  verbose: boolean;
+}
+
+const main = async (argv: string[]): Promise<number> => {
+  let options: CliOptions;
+  try {
+    options = parseArgs(argv);
+  } catch (error) {
+    process.stderr.write(`${(error as Error).message}\n\n${USAGE}`);
+    return 2;
+  }
+  const log = makeConsoleLogger(options.verbose);
+
+  let config: RainSwitchPlatformConfig;
+  try {
+    config = await loadPlatformConfig(options.config);
+  } catch (error) {
+    log.error((error as Error).message);
+    return 1;
+  }
+  const storagePath = options.storage ?? path.dirname(options.config);
+
+  let reports: LocationReport[];
+  try {
+    reports = await checkConfig(log, config, storagePath, options);
+  } catch (error) {
+    log.error((error as Error).message);
+    return 1;
+  }
+  if (!reports.length) {
+    log.warn('No enabled accessories found; nothing to check');
+  }
+
+  if (options.json) {
+    process.stdout.write(`${JSON.stringify({ version: PLUGIN_VERSION, checkedAt: new Date().toISOString(), locations: reports }, null, 2)}\n`);
+  } else {
+    process.stdout.write(renderReports(reports, makeUnitFormatter(config.units)));
+  }
+  return reports.some((report) => report.error) ? 1 : 0;
+};
+
+const renderReports = (reports: LocationReport[], units: UnitFormatter): string => {
+  const lines: string[] = [];
+  for (const report of reports) {
+    lines.push(`Location ${report.key}`);
+    lines.push(`  Coordinates: ${report.location ? `${report.location.lat.toFixed(4)}, ${report.location.lon.toFixed(4)} (${report.location.source})` : 'unknown'}`);
+    if (report.providers) {
+      lines.push(`  Providers:   ${report.providers}`);
+    }
+    if (report.error) {
+      lines.push(`  Error:       ${report.error}`, '');
+      continue;
+    }
+    if (report.nowcast) {
+      lines.push(`  Now:         ${describeWeather(report.nowcast, units)} via ${report.nowcast.providerName}`);
+    }
+    lines.push('  Forecast:');
+    if (!report.forecast.length) {
+      lines.push('    (no forecast data)');
+    }
+    for (const slice of report.forecast) {
+      const pop = slice.pop != null ? `${Math.round(slice.pop)}%` : '-';
+      lines.push(`    +${String(slice.minutesFromNow).padStart(4)} min  ${units.rate(slice.precipMmHr).padStart(11)}  ${slice.type.padEnd(13)}  PoP ${pop}`);
+    }
+    lines.push('  Accessories:');
+    for (const accessory of report.accessories) {
+      const state = accessory.on == null ? 'UNKNOWN' : accessory.on ? 'ON' : 'OFF';
+      lines.push(`    ${accessory.name} (${accessory.type}): ${state} - ${accessory.reason.replace(/\n/g, '\n      ')}`);
+      for (const note of accessory.notes) {
+        lines.push(`      ${note}`);
+      }
+    }
+    lines.push('');
+  }
+  if (reports.some((report) => report.accessories.length)) {
+    lines.push('Minimum ON/OFF durations, debounce, OFF thresholds, and manual overrides depend on the running plugin and are not applied here.');
+  }
+  return `${lines.join('\n')}\n`;
+};
+
+const loadPlatformConfig = async (file: string): Promise<RainSwitchPlatformConfig> => {
+  let parsed: { platforms?: Array<Record<string, unknown>> } & Record<string, unknown>;
+  try {
+    parsed = JSON.parse(await readFile(file, 'utf8')) as typeof parsed;
+  } catch (error) {
+    throw new Error(`Failed to read ${file}: ${(error as Error).message}`);
+  }
+  // A bare platform block (as copied from the Homebridge UI) is accepted as well.
+  if (!Array.isArray(parsed.platforms)) {
+    return parsed as RainSwitchPlatformConfig;
+  }
+  const platform = parsed.platforms.find((entry) => {
+    return entry.platform === PLATFORM_NAME || entry.platform === `${PLUGIN_NAME}.${PLATFORM_NAME}`;
+  });
+  if (!platform) {
+    throw new Error(`No ${PLATFORM_NAME} platform found in ${file}`);
+  }
+  return platform as RainSwitchPlatformConfig;
+};
+
+const parseArgs = (argv: string[]): CliOptions => {
+  const options: CliOptions = {
+    config: path.join(homedir(), '.homebridge', 'config.json'),
+    json: false,
+    verbose: false,
+  };
+  const valueOf = (index: number, flag: string): string => {
+    const value = argv[index + 1];
+    if (value == null || value.startsWith('-')) {
+      throw new Error(`${flag} needs a value`);
+    }
+    return value;
+  };
+  for (let index = 0; index < argv.length; index += 1) {
+    const arg = argv[index];
+    switch (arg) {
+      case '-c':
+      case '--config':
+        options.config = valueOf(index, arg);
+        index += 1;
+        break;
+      case '-s':
+      case '--storage':
+        options.storage = valueOf(index, arg);
+        index += 1;
+        break;
+      case '-l':
+      case '--location':
+        options.location = valueOf(index, arg);
+        index += 1;
+        break;
+      case '-p':
+      case '--provider':
+        options.provider = parseProvider(valueOf(index, arg));
+        index += 1;
+        break;
+      case '-m':
+      case '--minutes':
+        options.minutes = Number(valueOf(index, arg));
+        if (!Number.isFinite(options.minutes) || options.minutes <= 0) {
+          throw new Error('--minutes must be a positive number');
+        }
+        index += 1;
+        break;
+      case '--json':
+        options.json = true;
+        break;
+      case '-v':
+      case '--verbose':
+        options.verbose = true;
+        break;
+      case '-h':
+      case '--help':
+        process.stdout.write(USAGE);
+        process.exit(0);
+        break;
+      default:
+        if (arg.startsWith('-')) {
+          throw new Error(`Unknown option ${arg}`);
+        }
+        options.config = arg;
+    }
+  }
+  return options;
+};
+
+const parseProvider = (value: string): ProviderMode => {
+  const provider = PROVIDER_MODES.find((mode) => mode === value);
+  if (!provider) {
+    throw new Error(`Unknown provider "${value}"`);
+  }
+  return provider;
+};
+
+// Logs go to stderr so --json output on stdout stays parseable.
+const makeConsoleLogger = (verbose: boolean): Logger => {
+  const write = (level: string) => (message: unknown, ...params: unknown[]): void => {
+    process.stderr.write(`[${level}] ${format(message, ...params)}\n`);
+  };
+  return {
+    info: verbose ? write('info') : () => undefined,
+    warn: write('warn'),
+    error: write('error'),
+    debug: verbose ? write('debug') : () => undefined,
+  };
+};
+
+main(process.argv.slice(2)).then(
+  (code) => {
+    process.exitCode = code;
+  },
+  (error: Error) => {
+    process.stderr.write(`${error.stack ?? error.message}\n`);
+    process.exitCode = 1;
+  },
+);
@@ -0,0 +1,262 @@
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'http';
+import { timingSafeEqual } from 'crypto';
+import type { Logger } from 'homebridge';
+import type { ControlApiConfig } from './types';
+import type { MetricsRegistry } from './util/metrics';
+import type { ProviderUsage } from './util/quota';
+import type { RainAccessory } from './rainAccessory';
+import { DEFAULT_LOCATION_KEY, type WeatherSite } from './site';
+import { currentTime } from './util/clock';
+
+const DEFAULT_HOST = '127.0.0.1';
+const DEFAULT_PORT = 8787;
+const DEFAULT_OVERRIDE_MINUTES = 60;
+const MAX_BODY_BYTES = 16 * 1024;
+const MAX_FORECAST_MINUTES = 48 * 60;
+const MAX_HISTORY_HOURS = 366 * 24;
+const LOOPBACK_HOSTS = ['localhost', '::1', '[::1]'];
+
+class HttpError extends Error {
+  constructor(public readonly statusCode: number, message: string) {
+    super(message);
+  }
+}
+
+export class ControlApi {
+  private server: Server | null = null;
+
+  constructor(
+    private readonly log: Logger,
+    private readonly cfg: ControlApiConfig,
+    private readonly metrics: MetricsRegistry,
+    private readonly getSites: () => WeatherSite[],
+    private readonly getDefaultOverrideMinutes: () => number | undefined,
+    private readonly getQuotaUsage: () => ProviderUsage[],
+  ) {}
+
+  start(): void {
+    if (this.server) {
+      return;
+    }
+    const host = this.cfg.host?.trim() || DEFAULT_HOST;
+    const port = this.cfg.port ?? DEFAULT_PORT;
+    // Anything that can reach a non-loopback address could otherwise change accessories.
+    if (!this.cfg.token && !isLoopback(host)) {
+      this.log.error('Control API needs a token to listen on %s; not starting it', host);
+      return;
+    }
+    this.server = createServer((req, res) => {
+      void this.handle(req, res);
+    });
+    this.server.on('error', (error) => {
+      this.log.error('Control API server error: %s', error.message);
+    });
+    this.server.listen(port, host, () => {
+      this.log.info('Control API listening on http://%s:%d', host, port);
+    });
+  }
+
+  stop(): void {
+    this.server?.close();
+    this.server = null;
+  }
+
+  private async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    try {
+      this.authorise(req);
+      const url = new URL(req.url ?? '/', 'http://localhost');
+      const segments = url.pathname.split('/').filter(Boolean).map(decodeSegment);
+      const method = req.method ?? 'GET';
+
+      if (method === 'GET' && url.pathname === '/status') {
+        return sendJson(res, 200, this.status());
+      }
+      if (method === 'GET' && url.pathname === '/metrics') {
+        return sendText(res, 200, this.metrics.render(this.getSites(), this.getQuotaUsage()), 'text/plain; version=0.0.4; charset=utf-8');
+      }
+      if (method === 'GET' && url.pathname === '/accessories') {
+        return sendJson(res, 200, this.accessories().map((accessory) => accessory.getStatus()));
+      }
+      if (method === 'GET' && url.pathname === '/providers') {
+        return sendJson(res, 200, this.getSites().map((site) => ({ location: site.key, ...site.getHealth() })));
+      }
+      if (method === 'GET' && url.pathname === '/quota') {
+        return sendJson(res, 200, this.getQuotaUsage());
+      }
+      if (method === 'GET' && url.pathname === '/forecast') {
+        const site = this.findSite(url.searchParams.get('location'));
+        const minutes = parseDuration(url.searchParams.get('minutes'), 120, MAX_FORECAST_MINUTES, 'minutes');
+        return sendJson(res, 200, { location: site.key, slices: await site.getForecast(minutes) });
+      }
+      if (method === 'GET' && url.pathname === '/history') {
+        const site = this.findSite(url.searchParams.get('location'));
+        const hours = parseDuration(url.searchParams.get('hours'), 24, MAX_HISTORY_HOURS, 'hours');
+        const since = currentTime() - hours * 3_600_000;
+        return sendJson(res, 200, {
+          location: site.key,
+          weather: site.getWeatherHistory(since),
+          switches: site.getSwitchHistory(since),
+        });
+      }
+      if (method === 'POST' && url.pathname === '/refresh') {
+        const results = [];
+        for (const site of this.getSites()) {
+          if (!site.getAccessories().length) {
+            continue;
+          }
+          try {
+            results.push({ location: site.key, weather: await site.refresh() });
+          } catch (error) {
+            results.push({ location: site.key, error: (error as Error).message });
+          }
+        }
+        return sendJson(res, 200, results);
+      }
+      if (segments.length === 3 && segments[0] === 'accessories' && segments[2] === 'override') {
+        const accessory = this.findAccessory(segments[1]);
+        if (method === 'POST') {
+          const body = await readJsonBody(req);
+          if (typeof body.on !== 'boolean') {
+            throw new HttpError(400, 'Body must include a boolean "on" field');
+          }
+          const fallback = this.getDefaultOverrideMinutes() || DEFAULT_OVERRIDE_MINUTES;
+          const minutes = body.minutes === undefined ? fallback : parseDuration(String(body.minutes), fallback, 7 * 24 * 60, 'minutes');
+          accessory.setOverride(body.on, minutes);
+          return sendJson(res, 200, accessory.getStatus());
+        }
+        if (method === 'DELETE') {
+          accessory.clearOverride();
+          return sendJson(res, 200, accessory.getStatus());
+        }
+        throw new HttpError(405, 'Method not allowed');
+      }
+      throw new HttpError(404, 'Not found');
+    } catch (error) {
+      const statusCode = error instanceof HttpError ? error.statusCode : 500;
+      if (statusCode === 500) {
+        this.log.warn('Control API request failed: %s', (error as Error).message);
+      }
+      sendJson(res, statusCode, { error: (error as Error).message });
+    }
+  }
+
+  private authorise(req: IncomingMessage): void {
+    if (!this.cfg.token) {
+      return;
+    }
+    const header = req.headers.authorization;
+    const supplied = typeof header === 'string' && header.startsWith('Bearer ') ? header.slice(7).trim() : '';
+    const expected = new TextEncoder().encode(this.cfg.token);
+    const actual = new TextEncoder().encode(supplied);
+    if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+      throw new HttpError(401, 'Unauthorized');
+    }
+  }
+
+  private status(): unknown {
+    return {
+      locations: this.getSites().map((site) => ({
+        key: site.key,
+        providers: site.describe(),
+        weather: site.getLastWeather(),
+      })),
+      accessories: this.accessories().map((accessory) => accessory.getStatus()),
+    };
+  }
+
+  private accessories(): RainAccessory[] {
+    return this.getSites().flatMap((site) => site.getAccessories());
+  }
+
+  private findSite(key: string | null): WeatherSite {
+    const wanted = key || DEFAULT_LOCATION_KEY;
+    const site = this.getSites().find((candidate) => candidate.key === wanted);
+    if (!site) {
+      throw new HttpError(404, `Unknown location "${wanted}"`);
+    }
+    return site;
+  }
+
+  private findAccessory(name: string): RainAccessory {
+    const accessory = this.accessories().find((candidate) => candidate.name === name);
+    if (!accessory) {
+      throw new HttpError(404, `Unknown accessory "${name}"`);
+    }
+    return accessory;
+  }
+}
+
+const decodeSegment = (segment: string): string => {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    throw new HttpError(400, 'Malformed path');
+  }
+};
+
+const isLoopback = (host: string): boolean => {
+  return LOOPBACK_HOSTS.includes(host.toLowerCase()) || /^127(\.\d{1,3}){3}$/.test(host);
+};
+
+const sendJson = (res: ServerResponse, statusCode: number, payload: unknown): void => {
+  res.statusCode = statusCode;
+  res.setHeader('Content-Type', 'application/json');
+  res.end(JSON.stringify(payload));
+};
+
+const sendText = (res: ServerResponse, statusCode: number, payload: string, contentType: string): void => {
+  res.statusCode = statusCode;
+  res.setHeader('Content-Type', contentType);
+  res.end(payload);
+};
+
+const readJsonBody = (req: IncomingMessage): Promise<{ on?: unknown; minutes?: unknown }> => {
+  return new Promise((resolve, reject) => {
+    const chunks: Uint8Array[] = [];
+    let size = 0;
+    req.on('data', (chunk) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new HttpError(413, 'Request body too large'));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => {
+      const merged = new Uint8Array(size);
+      let offset = 0;
+      for (const chunk of chunks) {
+        merged.set(chunk, offset);
+        offset += chunk.length;
+      }
+      const text = new TextDecoder().decode(merged);
+      if (!text.trim()) {
+        resolve({});
+        return;
+      }
+      try {
+        const parsed = JSON.parse(text) as unknown;
+        if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+          reject(new HttpError(400, 'Body must be a JSON object'));
+          return;
+        }
+        resolve(parsed as { on?: unknown; minutes?: unknown });
+      } catch {
+        reject(new HttpError(400, 'Body must be valid JSON'));
+      }
+    });
+    req.on('error', (error) => reject(error));
+  });
+};
+
+const parseDuration = (value: string | null, fallback: number, max: number, unit: string): number => {
+  if (value == null || value === '') {
+    return fallback;
+  }
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed <= 0) {
+    throw new HttpError(400, `Invalid ${unit} value "${value}"`);
+  }
+  return Math.min(max, Math.round(parsed));
+};
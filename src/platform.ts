@@ -1,43 +1,78 @@
 import type { API, DynamicPlatformPlugin, Logger, PlatformAccessory, PlatformConfig } from 'homebridge';
 import { RainAccessory } from './rainAccessory';
-import type { RainSwitchPlatformConfig, RainAccessoryConfig, WeatherNowcast } from './types';
-import { resolveLocation, type ResolvedLocation } from './util/geo';
-import { makeProviderChain, type ProviderChain } from './providers/provider';
+import type { PollingConfig, RainSwitchPlatformConfig, RainAccessoryConfig } from './types';
+import { WeatherSite, DEFAULT_LOCATION_KEY } from './site';
+import { ControlApi } from './controlApi';
+import { makeMetricsRegistry } from './util/metrics';
+import type { HysteresisOptions } from './util/hysteresis';
+import type { AdaptivePollingOptions } from './util/polling';
+import { DEFAULT_HISTORY_RETENTION_DAYS, MAX_HISTORY_RETENTION_DAYS } from './util/history';
+import { isWithinQuietHours, parseQuietHours, type QuietHours } from './util/schedule';
+import { makeEveHistoryFactory, type EveHistory, type EveHistoryFactory } from './util/eveHistory';
+import { makeUnitFormatter, normaliseAccessoryUnits, type UnitFormatter } from './util/units';
+import { parsePrecipTypes } from './util/precip';
+import { collectCallBudgets, makeQuotaTracker, type QuotaTracker } from './util/quota';
+import { makeHttpClient } from './util/http';
+import type { HttpRequest } from './util/recording';
 import { PLUGIN_NAME, PLATFORM_NAME } from './version';
 
 const MIN_INTERVAL_SECONDS = 60;
 const MAX_INTERVAL_SECONDS = 15 * 60;
+const MIN_FAST_INTERVAL_SECONDS = 30;
+const MAX_SLOW_INTERVAL_SECONDS = 60 * 60;
+const DEFAULT_FAST_INTERVAL_SECONDS = 60;
+const DEFAULT_SLOW_INTERVAL_SECONDS = 30 * 60;
+const DEFAULT_SLOW_AFTER_DRY_HOURS = 3;
+// Only adaptive polling is jittered by default, so fixed intervals keep the timing users configured.
+const DEFAULT_ADAPTIVE_JITTER_PERCENT = 10;
 
 export class RainSwitchPlatform implements DynamicPlatformPlugin {
   public readonly Service = this.api.hap.Service;
   public readonly Characteristic = this.api.hap.Characteristic;
+  public readonly metrics = makeMetricsRegistry();
+  public readonly units: UnitFormatter;
+  public readonly quota: QuotaTracker;
+  public readonly http: HttpRequest;
 
   private readonly config: RainSwitchPlatformConfig;
+  private readonly accessoryConfigs: RainAccessoryConfig[];
   private readonly accessories = new Map<string, RainAccessory>();
   private readonly cachedAccessories = new Map<string, PlatformAccessory>();
+  private readonly sites = new Map<string, WeatherSite>();
+  private controlApi: ControlApi | null = null;
 
-  private providerChain: ProviderChain | null = null;
-  private location: ResolvedLocation | null = null;
-  private pollingTimer: ReturnType<typeof setTimeout> | null = null;
   private readonly intervalMs: number;
+  private readonly adaptivePolling: AdaptivePollingOptions | null;
+  private readonly jitterRatio: number;
   private readonly minOnMs: number;
   private readonly minOffMs: number;
   private readonly timeoutMs: number;
   private readonly cacheTtlSeconds: number;
   private readonly retryBackoffSeconds: number[];
   private readonly overrideMinutes?: number;
-  private readonly quietSchedule?: { start: number; end: number };
+  private readonly quietSchedule?: QuietHours;
   private readonly debugEnabled: boolean;
-  private lastWeather: WeatherNowcast | null = null;
+  private readonly historyRetentionMs: number | null;
+  private eveHistoryFactory: EveHistoryFactory | null = null;
 
   constructor(public readonly log: Logger, config: PlatformConfig, public readonly api: API) {
     this.config = (config ?? {}) as RainSwitchPlatformConfig;
+    this.units = makeUnitFormatter(this.config.units);
+    this.accessoryConfigs = (this.config.accessories ?? []).map((accessory) => {
+      const warn = (message: string): void => this.log.warn('%s %s', accessory.name, message);
+      return { ...normaliseAccessoryUnits(accessory, this.units.system, warn), precipTypes: parsePrecipTypes(accessory.precipTypes, warn) };
+    });
     const intervalSeconds = clamp(
       this.config.polling?.intervalSeconds ?? 180,
       MIN_INTERVAL_SECONDS,
       MAX_INTERVAL_SECONDS,
     );
     this.intervalMs = intervalSeconds * 1000;
+    this.adaptivePolling = parseAdaptivePolling(this.config.polling, intervalSeconds);
+    this.http = makeHttpClient(this.log, { contact: this.config.advanced?.userAgentContact });
+    this.quota = makeQuotaTracker(this.log, this.api.user.storagePath(), collectCallBudgets(this.config));
+    const defaultJitter = this.config.polling?.adaptive ? DEFAULT_ADAPTIVE_JITTER_PERCENT : 0;
+    this.jitterRatio = clamp(this.config.polling?.jitterPercent ?? defaultJitter, 0, 50) / 100;
     this.minOnMs = (this.config.polling?.minOnDurationSeconds ?? 300) * 1000;
     this.minOffMs = (this.config.polling?.minOffDurationSeconds ?? 300) * 1000;
     this.timeoutMs = this.config.polling?.timeoutMs ?? 5000;
@@ -46,10 +81,16 @@ export class RainSwitchPlatform implements DynamicPlatformPlugin {
     this.overrideMinutes = this.config.advanced?.overrideMinutes;
     this.quietSchedule = parseQuietHours(this.config.advanced?.quietHours);
     this.debugEnabled = this.config.advanced?.logLevel === 'debug';
+    this.historyRetentionMs = this.config.history?.enabled
+      ? clamp(this.config.history.retentionDays ?? DEFAULT_HISTORY_RETENTION_DAYS, 1, MAX_HISTORY_RETENTION_DAYS) * 86_400_000
+      : null;
 
     this.api.on('didFinishLaunching', () => {
       void this.handleDidFinishLaunching();
     });
+    this.api.on('shutdown', () => {
+      this.handleShutdown();
+    });
   }
 
   configureAccessory(accessory: PlatformAccessory): void {
@@ -57,24 +98,8 @@ export class RainSwitchPlatform implements DynamicPlatformPlugin {
     this.cachedAccessories.set(accessory.UUID, accessory);
   }
 
-  async getForecast(lookaheadMinutes: number): Promise<import('./types').WeatherForecastSlice[]> {
-    if (!this.providerChain) {
-      throw new Error('Provider chain not ready');
-    }
-    return this.providerChain.getForecast(lookaheadMinutes);
-  }
-
   isWithinQuietHours(now: number): boolean {
-    if (!this.quietSchedule) {
-      return false;
-    }
-    const date = new Date(now);
-    const minutes = date.getHours() * 60 + date.getMinutes();
-    const { start, end } = this.quietSchedule;
-    if (start <= end) {
-      return minutes >= start && minutes < end;
-    }
-    return minutes >= start || minutes < end;
+    return isWithinQuietHours(this.quietSchedule, now);
   }
 
   debug(message: string, ...params: unknown[]): void {
@@ -83,56 +108,131 @@ export class RainSwitchPlatform implements DynamicPlatformPlugin {
     }
   }
 
-  getHysteresisConfig(): { minOnMs: number; minOffMs: number } {
-    return { minOnMs: this.minOnMs, minOffMs: this.minOffMs };
+  // Per-accessory durations override the polling defaults.
+  getHysteresisConfig(accessory: RainAccessoryConfig): HysteresisOptions {
+    return {
+      minOnMs: accessory.minOnDurationSeconds != null ? accessory.minOnDurationSeconds * 1000 : this.minOnMs,
+      minOffMs: accessory.minOffDurationSeconds != null ? accessory.minOffDurationSeconds * 1000 : this.minOffMs,
+      debouncePolls: accessory.debouncePolls,
+    };
   }
 
   getOverrideMinutes(): number | undefined {
     return this.overrideMinutes;
   }
 
-  getLastWeather(): WeatherNowcast | null {
-    return this.lastWeather;
+  createEveHistory(accessory: PlatformAccessory): EveHistory | null {
+    if (this.historyRetentionMs == null || this.config.history?.eve === false) {
+      return null;
+    }
+    try {
+      if (!this.eveHistoryFactory) {
+        this.eveHistoryFactory = makeEveHistoryFactory(this.api, this.log, this.api.user.storagePath());
+      }
+      return this.eveHistoryFactory(accessory);
+    } catch (error) {
+      this.log.warn('Eve history unavailable for %s: %s', accessory.displayName, (error as Error).message);
+      return null;
+    }
+  }
+
+  persistAccessories(accessories: PlatformAccessory[]): void {
+    if (!accessories.length) {
+      return;
+    }
+    try {
+      this.api.updatePlatformAccessories(accessories);
+    } catch (error) {
+      this.log.warn('Failed to persist accessory state: %s', (error as Error).message);
+    }
   }
 
   private async handleDidFinishLaunching(): Promise<void> {
+    this.createSites();
     if (!this.hasEnabledAccessories()) {
       this.setupAccessories();
       this.log.info('No accessories enabled; skipping provider initialisation');
       return;
     }
+    await this.quota.load();
 
-    try {
-      this.location = await resolveLocation(
-        this.log,
-        this.config.location,
-        this.api.user.storagePath(),
-        this.timeoutMs,
-      );
-      if (!this.location) {
-        this.log.warn('Unable to determine location; provider selection may fail');
+    const ready = new Set<string>();
+    const active = [...this.sites.values()].filter((site) => {
+      return this.enabledAccessoryConfigs().some((acc) => this.resolveSiteKey(acc) === site.key);
+    });
+    for (const site of active) {
+      const siteConfigs = this.enabledAccessoryConfigs().filter((acc) => this.resolveSiteKey(acc) === site.key);
+      // Replays move the plugin-wide clock, which would throw every other location off real time.
+      if (site.isReplaying() && active.length > 1) {
+        this.log.error('[%s] Replay mode only works when it is the only location with accessories; not starting it', site.key);
+        continue;
+      }
+      if (await site.initialise(siteConfigs)) {
+        ready.add(site.key);
       }
-      this.providerChain = makeProviderChain(this.log, this.config.provider, this.location, {
-        timeoutMs: this.timeoutMs,
-        cacheTtlSeconds: this.cacheTtlSeconds,
-        retryBackoffSeconds: this.retryBackoffSeconds,
-      });
-      this.log.info('Using providers: %s', this.providerChain.describe());
-    } catch (error) {
-      this.log.error('Failed to initialise providers: %s', (error as Error).message);
-      return;
     }
 
     this.setupAccessories();
-    this.startPolling();
+    for (const site of this.sites.values()) {
+      if (ready.has(site.key)) {
+        site.startPolling();
+      } else {
+        site.markFault();
+      }
+    }
+    this.startControlApi();
   }
 
-  private setupAccessories(): void {
-    const configured = new Map<string, RainAccessoryConfig>();
-    for (const acc of this.config.accessories ?? []) {
-      if (acc.enabled === false) {
+  private createSites(): void {
+    const options = {
+      intervalMs: this.intervalMs,
+      adaptivePolling: this.adaptivePolling,
+      jitterRatio: this.jitterRatio,
+      timeoutMs: this.timeoutMs,
+      cacheTtlSeconds: this.cacheTtlSeconds,
+      retryBackoffSeconds: this.retryBackoffSeconds,
+      historyRetentionMs: this.historyRetentionMs,
+    };
+    this.sites.set(
+      DEFAULT_LOCATION_KEY,
+      new WeatherSite(this, DEFAULT_LOCATION_KEY, this.config.location, this.config.provider, options),
+    );
+    for (const named of this.config.locations ?? []) {
+      if (!named.key || named.key === DEFAULT_LOCATION_KEY || this.sites.has(named.key)) {
+        this.log.warn('Ignoring location with missing or duplicate key "%s"', named.key ?? '');
         continue;
       }
+      const { key, provider, ...location } = named;
+      this.sites.set(key, new WeatherSite(this, key, location, provider ?? this.config.provider, options));
+    }
+  }
+
+  private startControlApi(): void {
+    if (!this.config.controlApi?.enabled) {
+      return;
+    }
+    this.controlApi = new ControlApi(
+      this.log,
+      this.config.controlApi,
+      this.metrics,
+      () => [...this.sites.values()],
+      () => this.overrideMinutes,
+      () => this.quota.usage(Date.now()),
+    );
+    this.controlApi.start();
+  }
+
+  private handleShutdown(): void {
+    this.controlApi?.stop();
+    for (const site of this.sites.values()) {
+      site.stop();
+    }
+    this.debug('Polling stopped and accessory state flushed');
+  }
+
+  private setupAccessories(): void {
+    const configured = new Map<string, RainAccessoryConfig>();
+    for (const acc of this.enabledAccessoryConfigs()) {
       configured.set(this.generateUuid(acc), acc);
     }
 
@@ -145,6 +245,13 @@ export class RainSwitchPlatform implements DynamicPlatformPlugin {
     }
 
     for (const [uuid, accConfig] of configured.entries()) {
+      if (accConfig.location && !this.sites.has(accConfig.location)) {
+        this.log.warn('%s refers to unknown location "%s"; using the default location', accConfig.name, accConfig.location);
+      }
+      const site = this.sites.get(this.resolveSiteKey(accConfig));
+      if (!site) {
+        continue;
+      }
       let accessory = this.cachedAccessories.get(uuid);
       if (!accessory) {
         accessory = new this.api.platformAccessory(accConfig.name, uuid);
@@ -154,56 +261,32 @@ export class RainSwitchPlatform implements DynamicPlatformPlugin {
       }
       accessory.displayName = accConfig.name;
       accessory.context.config = accConfig;
-      const rainAccessory = new RainAccessory(this, accessory, accConfig);
+      const rainAccessory = new RainAccessory(this, site, accessory, accConfig);
+      site.addAccessory(rainAccessory);
       this.accessories.set(uuid, rainAccessory);
     }
   }
 
-  private startPolling(): void {
-    if (!this.providerChain) {
-      return;
-    }
-    if (this.pollingTimer) {
-      clearTimeout(this.pollingTimer);
-      this.pollingTimer = null;
-    }
-
-    this.debug('Starting polling loop every %d seconds', this.intervalMs / 1000);
-
-    const tick = async (): Promise<void> => {
-      try {
-        const weather = await this.providerChain!.getNowcast();
-        this.lastWeather = weather;
-        for (const accessory of this.accessories.values()) {
-          await accessory.evaluate(weather);
-        }
-      } catch (error) {
-        this.log.warn('Weather polling failed: %s', (error as Error).message);
-        this.providerChain?.markFailure();
-        for (const accessory of this.accessories.values()) {
-          accessory.markFault();
-        }
-      } finally {
-        if (this.providerChain) {
-          this.pollingTimer = setTimeout(() => {
-            this.pollingTimer = null;
-            void tick();
-          }, this.intervalMs);
-        } else {
-          this.pollingTimer = null;
-        }
-      }
-    };
+  private enabledAccessoryConfigs(): RainAccessoryConfig[] {
+    return this.accessoryConfigs.filter((accessory) => accessory.enabled !== false);
+  }
 
-    void tick();
+  private resolveSiteKey(config: RainAccessoryConfig): string {
+    const key = config.location ?? DEFAULT_LOCATION_KEY;
+    return this.sites.has(key) ? key : DEFAULT_LOCATION_KEY;
   }
 
   private hasEnabledAccessories(): boolean {
-    return (this.config.accessories ?? []).some((accessory) => accessory.enabled !== false);
+    return this.enabledAccessoryConfigs().length > 0;
   }
 
   private generateUuid(config: RainAccessoryConfig): string {
-    return String(this.api.hap.uuid.generate(`${this.config.name}:${config.type}:${config.name}`));
+    const siteKey = this.resolveSiteKey(config);
+    // Accessories at the default location keep their original UUIDs so existing HomeKit setups survive.
+    const seed = siteKey === DEFAULT_LOCATION_KEY
+      ? `${this.config.name}:${config.type}:${config.name}`
+      : `${this.config.name}:${siteKey}:${config.type}:${config.name}`;
+    return String(this.api.hap.uuid.generate(seed));
   }
 }
 
@@ -211,31 +294,16 @@ const clamp = (value: number, min: number, max: number): number => {
   return Math.min(max, Math.max(min, value));
 };
 
-type QuietHoursConfig = { start?: string; end?: string } | undefined;
-
-const parseQuietHours = (
-  quietHours: QuietHoursConfig,
-): { start: number; end: number } | undefined => {
-  if (!quietHours?.start || !quietHours?.end) {
-    return undefined;
-  }
-  const start = parseTimeString(quietHours.start);
-  const end = parseTimeString(quietHours.end);
-  if (start == null || end == null) {
-    return undefined;
-  }
-  return { start, end };
-};
-
-const parseTimeString = (value: string): number | null => {
-  const match = /^(\d{1,2}):(\d{2})$/.exec(value.trim());
-  if (!match) {
-    return null;
-  }
-  const hours = parseInt(match[1], 10);
-  const minutes = parseInt(match[2], 10);
-  if (hours < 0 || hours >= 24 || minutes < 0 || minutes >= 60) {
+// Fast polling never runs slower, and slow polling never faster, than the normal interval.
+const parseAdaptivePolling = (polling: PollingConfig | undefined, intervalSeconds: number): AdaptivePollingOptions | null => {
+  if (!polling?.adaptive) {
     return null;
   }
-  return hours * 60 + minutes;
+  const fastSeconds = clamp(polling.fastIntervalSeconds ?? DEFAULT_FAST_INTERVAL_SECONDS, MIN_FAST_INTERVAL_SECONDS, intervalSeconds);
+  const slowSeconds = clamp(polling.slowIntervalSeconds ?? DEFAULT_SLOW_INTERVAL_SECONDS, intervalSeconds, MAX_SLOW_INTERVAL_SECONDS);
+  return {
+    fastMs: fastSeconds * 1000,
+    slowMs: slowSeconds * 1000,
+    slowAfterMs: Math.max(0, polling.slowAfterDryHours ?? DEFAULT_SLOW_AFTER_DRY_HOURS) * 3_600_000,
+  };
 };
@@ -1,7 +1,11 @@
-import { request } from 'undici';
 import type { Logger } from 'homebridge';
-import type { NwsConfig, WeatherProvider, WeatherNowcast, WeatherForecastSlice, PrecipType } from '../types';
+import type { NwsConfig, WeatherProvider, WeatherNowcast, WeatherForecastSlice, WeatherAlert, PrecipType } from '../types';
 import type { ResolvedLocation } from '../util/geo';
+import type { HttpRequest } from '../util/recording';
+import { makeHttpClient } from '../util/http';
+import { currentTime } from '../util/clock';
+import { parseAlertSeverity } from '../util/alerts';
+import { combinePrecipTypes } from '../util/precip';
 
 interface NwsPointsResponse {
   properties?: {
@@ -20,6 +24,20 @@ interface NwsGridResponse {
   };
 }
 
+interface NwsAlertsResponse {
+  features?: Array<{
+    id?: string;
+    properties?: {
+      id?: string;
+      event?: string;
+      headline?: string | null;
+      severity?: string | null;
+      expires?: string | null;
+      ends?: string | null;
+    };
+  }>;
+}
+
 interface NwsValue {
   validTime?: string;
   value?: number | null;
@@ -40,12 +58,14 @@ export class NwsProvider implements WeatherProvider {
   public readonly name = 'NOAA/NWS';
   private gridPoint: ResolvedGridPoint | null = null;
   private gridCache: { data: NwsGridResponse; ts: number } | null = null;
+  private alertsCache: { data: WeatherAlert[]; ts: number } | null = null;
 
   constructor(
     private readonly log: Logger,
     private readonly cfg: NwsConfig | undefined,
     private readonly location: ResolvedLocation | null,
     private readonly timeoutMs: number,
+    private readonly http: HttpRequest = makeHttpClient(log),
   ) {}
 
   isSupported(): boolean {
@@ -54,7 +74,7 @@ export class NwsProvider implements WeatherProvider {
 
   async getNowcast(): Promise<WeatherNowcast> {
     const grid = await this.fetchGrid();
-    const now = Date.now();
+    const now = currentTime();
     const precip = selectSeriesValue(grid.properties?.quantitativePrecipitation?.values ?? [], now);
     const pop = selectSeriesValue(grid.properties?.probabilityOfPrecipitation?.values ?? [], now);
     const weather = selectWeather(grid.properties?.weather?.values ?? [], now);
@@ -74,7 +94,7 @@ export class NwsProvider implements WeatherProvider {
 
   async getForecast(lookaheadMinutes: number): Promise<WeatherForecastSlice[]> {
     const grid = await this.fetchGrid();
-    const now = Date.now();
+    const now = currentTime();
     const combined = new Map<number, ForecastBuild>();
 
     mergeSeries(combined, grid.properties?.quantitativePrecipitation?.values ?? [], (builder, entry) => {
@@ -107,6 +127,48 @@ export class NwsProvider implements WeatherProvider {
     return slices.sort((a, b) => a.ts - b.ts);
   }
 
+  async getAlerts(): Promise<WeatherAlert[]> {
+    if (this.alertsCache && currentTime() - this.alertsCache.ts < 60_000) {
+      return this.alertsCache.data;
+    }
+    if (!this.location) {
+      throw new Error('No location provided');
+    }
+    const url = `https://api.weather.gov/alerts/active?point=${this.location.lat},${this.location.lon}`;
+    const { body, statusCode } = await this.http(url, {
+      method: 'GET',
+      headers: {
+        Accept: 'application/geo+json',
+      },
+      bodyTimeout: this.timeoutMs,
+      headersTimeout: this.timeoutMs,
+    });
+    if (statusCode < 200 || statusCode >= 300) {
+      const text = await body.text();
+      throw new Error(`NWS alerts HTTP ${statusCode}: ${text}`);
+    }
+    const text = await body.text();
+    const parsed = JSON.parse(text) as NwsAlertsResponse;
+    const alerts: WeatherAlert[] = [];
+    for (const feature of parsed.features ?? []) {
+      const properties = feature.properties ?? {};
+      if (!properties.event) {
+        continue;
+      }
+      const expires = Date.parse(properties.ends ?? properties.expires ?? '');
+      alerts.push({
+        id: properties.id ?? feature.id ?? properties.event,
+        providerName: this.name,
+        event: properties.event,
+        headline: properties.headline ?? properties.event,
+        severity: parseAlertSeverity(properties.severity),
+        expires: Number.isFinite(expires) ? expires : undefined,
+      });
+    }
+    this.alertsCache = { data: alerts, ts: currentTime() };
+    return alerts;
+  }
+
   private async fetchGrid(): Promise<NwsGridResponse> {
     if (!this.gridPoint) {
       this.gridPoint = await this.resolveGridPoint();
@@ -114,14 +176,13 @@ export class NwsProvider implements WeatherProvider {
     if (!this.gridPoint) {
       throw new Error('Unable to resolve NWS grid point');
     }
-    if (this.gridCache && Date.now() - this.gridCache.ts < 60_000) {
+    if (this.gridCache && currentTime() - this.gridCache.ts < 60_000) {
       return this.gridCache.data;
     }
     const url = `https://api.weather.gov/gridpoints/${this.gridPoint.office}/${this.gridPoint.gridX},${this.gridPoint.gridY}`;
-    const { body, statusCode } = await request(url, {
+    const { body, statusCode } = await this.http(url, {
       method: 'GET',
       headers: {
-        'User-Agent': 'homebridge-rain-switch (https://github.com/example)',
         Accept: 'application/geo+json',
       },
       bodyTimeout: this.timeoutMs,
@@ -133,7 +194,7 @@ export class NwsProvider implements WeatherProvider {
     }
     const text = await body.text();
     const parsed = JSON.parse(text) as NwsGridResponse;
-    this.gridCache = { data: parsed, ts: Date.now() };
+    this.gridCache = { data: parsed, ts: currentTime() };
     return parsed;
   }
 
@@ -142,10 +203,9 @@ export class NwsProvider implements WeatherProvider {
       return null;
     }
     const url = `https://api.weather.gov/points/${this.location.lat},${this.location.lon}`;
-    const { body, statusCode } = await request(url, {
+    const { body, statusCode } = await this.http(url, {
       method: 'GET',
       headers: {
-        'User-Agent': 'homebridge-rain-switch (https://github.com/example)',
         Accept: 'application/geo+json',
       },
       bodyTimeout: this.timeoutMs,
@@ -256,14 +316,33 @@ const determineWeatherType = (value: Array<{ weather?: string | null; coverage?:
   if (!value?.length) {
     return 'none';
   }
-  for (const condition of value) {
-    const weather = (condition.weather ?? condition.coverage ?? '').toLowerCase();
-    if (weather.includes('snow')) {
-      return 'snow';
-    }
-    if (weather.includes('rain') || weather.includes('showers') || weather.includes('rain showers')) {
-      return 'rain';
-    }
+  return combinePrecipTypes(value.map((condition) => mapWeatherCondition(condition.weather)));
+};
+
+// Gridpoint weather names such as "rain_showers", "freezing_drizzle", or "thunderstorms".
+const mapWeatherCondition = (weather: string | null | undefined): PrecipType => {
+  const normalized = (weather ?? '').toLowerCase();
+  if (normalized.includes('hail')) {
+    return 'hail';
+  }
+  if (normalized.includes('thunder')) {
+    return 'thunderstorm';
+  }
+  if (normalized.startsWith('freezing_rain') || normalized.startsWith('freezing_drizzle')) {
+    return 'freezing-rain';
+  }
+  if (normalized.includes('sleet')) {
+    return 'ice-pellets';
+  }
+  // Blowing snow is wind-driven snow that is already on the ground.
+  if (normalized.includes('snow') && normalized !== 'blowing_snow') {
+    return 'snow';
+  }
+  if (normalized.includes('drizzle')) {
+    return 'drizzle';
+  }
+  if (normalized.includes('rain') || normalized.includes('showers')) {
+    return 'rain';
   }
   return 'none';
 };
@@ -0,0 +1,221 @@
+import type { Logger } from 'homebridge';
+import type { OpenMeteoConfig, WeatherProvider, WeatherNowcast, WeatherForecastSlice, PrecipType } from '../types';
+import type { ResolvedLocation } from '../util/geo';
+import type { HttpRequest } from '../util/recording';
+import { makeHttpClient } from '../util/http';
+import { currentTime } from '../util/clock';
+
+interface OpenMeteoSeries {
+  time?: number[];
+  precipitation?: Array<number | null>;
+  rain?: Array<number | null>;
+  showers?: Array<number | null>;
+  snowfall?: Array<number | null>;
+  weather_code?: Array<number | null>;
+  precipitation_probability?: Array<number | null>;
+}
+
+interface OpenMeteoResponse {
+  current?: {
+    time?: number;
+    interval?: number;
+    precipitation?: number | null;
+    rain?: number | null;
+    showers?: number | null;
+    snowfall?: number | null;
+    weather_code?: number | null;
+    temperature_2m?: number | null;
+  };
+  minutely_15?: OpenMeteoSeries;
+  hourly?: OpenMeteoSeries;
+}
+
+interface SeriesEntry {
+  ts: number;
+  precipMmHr: number;
+  pop?: number;
+  type: PrecipType;
+}
+
+const SERIES_FIELDS = 'precipitation,rain,showers,snowfall,weather_code';
+
+export class OpenMeteoProvider implements WeatherProvider {
+  public readonly name = 'Open-Meteo';
+  private weatherCache: { data: OpenMeteoResponse; ts: number } | null = null;
+
+  constructor(
+    private readonly log: Logger,
+    private readonly cfg: OpenMeteoConfig | undefined,
+    private readonly location: ResolvedLocation | null,
+    private readonly timeoutMs: number,
+    private readonly http: HttpRequest = makeHttpClient(log),
+  ) {}
+
+  isSupported(): boolean {
+    return Boolean(this.location);
+  }
+
+  async getNowcast(): Promise<WeatherNowcast> {
+    const weather = await this.fetchWeather();
+    const current = weather.current ?? {};
+    const intervalMinutes = (current.interval ?? 900) / 60;
+    const liquid = (normalizeNumber(current.rain) ?? 0) + (normalizeNumber(current.showers) ?? 0);
+    const precip = normalizeNumber(current.precipitation) ?? liquid;
+    const snowfall = normalizeNumber(current.snowfall) ?? 0;
+    const precipMmHr = convertToRate(precip, intervalMinutes);
+    const pop = selectCurrentPop(collectSeries(weather.hourly, 60), currentTime());
+
+    return {
+      ts: (current.time ?? Math.floor(currentTime() / 1000)) * 1000,
+      providerName: this.name,
+      precipMmHr,
+      pop,
+      type: resolveType(current.weather_code, liquid, snowfall) ?? 'none',
+      temperatureC: normalizeNumber(current.temperature_2m) ?? undefined,
+    };
+  }
+
+  async getForecast(lookaheadMinutes: number): Promise<WeatherForecastSlice[]> {
+    const weather = await this.fetchWeather();
+    const now = currentTime();
+    const minutely = collectSeries(weather.minutely_15, 15);
+    const hourly = collectSeries(weather.hourly, 60);
+    const minutelyEnd = minutely.length ? minutely[minutely.length - 1].ts : 0;
+    const slices: WeatherForecastSlice[] = [];
+
+    for (const entry of [...minutely, ...hourly.filter((hour) => hour.ts > minutelyEnd)]) {
+      const minutesFromNow = Math.round((entry.ts - now) / 60000);
+      if (minutesFromNow < 0 || minutesFromNow > lookaheadMinutes) {
+        continue;
+      }
+      slices.push({
+        ts: entry.ts,
+        minutesFromNow,
+        providerName: this.name,
+        precipMmHr: entry.precipMmHr,
+        pop: entry.pop ?? selectCurrentPop(hourly, entry.ts),
+        type: entry.type,
+      });
+    }
+
+    return slices.sort((a, b) => a.ts - b.ts);
+  }
+
+  private async fetchWeather(): Promise<OpenMeteoResponse> {
+    if (this.weatherCache && currentTime() - this.weatherCache.ts < 60_000) {
+      return this.weatherCache.data;
+    }
+    if (!this.location) {
+      throw new Error('No location provided');
+    }
+    this.log.debug('[Open-Meteo] Requesting forecast for %s,%s', this.location.lat.toFixed(3), this.location.lon.toFixed(3));
+    const url = new URL('https://api.open-meteo.com/v1/forecast');
+    url.searchParams.set('latitude', this.location.lat.toString());
+    url.searchParams.set('longitude', this.location.lon.toString());
+    url.searchParams.set('current', `${SERIES_FIELDS},temperature_2m`);
+    url.searchParams.set('minutely_15', SERIES_FIELDS);
+    url.searchParams.set('hourly', `${SERIES_FIELDS},precipitation_probability`);
+    url.searchParams.set('forecast_days', '2');
+    url.searchParams.set('timeformat', 'unixtime');
+    const { body, statusCode } = await this.http(url.toString(), {
+      method: 'GET',
+      headers: {
+        Accept: 'application/json',
+      },
+      bodyTimeout: this.timeoutMs,
+      headersTimeout: this.timeoutMs,
+    });
+    if (statusCode < 200 || statusCode >= 300) {
+      const text = await body.text();
+      throw new Error(`Open-Meteo HTTP ${statusCode}: ${text}`);
+    }
+    const text = await body.text();
+    const parsed = JSON.parse(text) as OpenMeteoResponse;
+    this.weatherCache = { data: parsed, ts: currentTime() };
+    return parsed;
+  }
+}
+
+// Open-Meteo reports precipitation as the sum over the preceding interval, so each
+// entry is shifted back to the start of the interval it describes.
+const collectSeries = (series: OpenMeteoSeries | undefined, intervalMinutes: number): SeriesEntry[] => {
+  const entries: SeriesEntry[] = [];
+  const times = series?.time ?? [];
+  for (let index = 0; index < times.length; index += 1) {
+    const time = times[index];
+    if (typeof time !== 'number' || !Number.isFinite(time)) {
+      continue;
+    }
+    const liquid = (normalizeNumber(series?.rain?.[index]) ?? 0) + (normalizeNumber(series?.showers?.[index]) ?? 0);
+    const precip = normalizeNumber(series?.precipitation?.[index]) ?? liquid;
+    const snowfall = normalizeNumber(series?.snowfall?.[index]) ?? 0;
+    const popRaw = normalizeNumber(series?.precipitation_probability?.[index]);
+    entries.push({
+      ts: time * 1000 - intervalMinutes * 60_000,
+      precipMmHr: convertToRate(precip, intervalMinutes),
+      pop: popRaw != null ? clampPercentage(popRaw) : undefined,
+      type: resolveType(series?.weather_code?.[index], liquid, snowfall) ?? 'none',
+    });
+  }
+  return entries.sort((a, b) => a.ts - b.ts);
+};
+
+const selectCurrentPop = (hourly: SeriesEntry[], ts: number): number | undefined => {
+  const match = hourly.find((entry) => ts >= entry.ts && ts < entry.ts + 60 * 60_000);
+  return match?.pop;
+};
+
+const resolveType = (code: number | null | undefined, liquid: number, snowfall: number): PrecipType | null => {
+  // WMO weather interpretation codes.
+  if (typeof code === 'number') {
+    if (code === 96 || code === 99) {
+      return 'hail';
+    }
+    if (code === 95) {
+      return 'thunderstorm';
+    }
+    if ((code >= 71 && code <= 77) || code === 85 || code === 86) {
+      return 'snow';
+    }
+    if (code === 56 || code === 57 || code === 66 || code === 67) {
+      return 'freezing-rain';
+    }
+    if (code >= 51 && code <= 55) {
+      return 'drizzle';
+    }
+    if ((code >= 61 && code <= 65) || (code >= 80 && code <= 82)) {
+      return 'rain';
+    }
+  }
+  if (snowfall > 0 && liquid > 0) {
+    return 'mixed';
+  }
+  if (snowfall > 0) {
+    return 'snow';
+  }
+  if (liquid > 0) {
+    return 'rain';
+  }
+  return code != null ? 'none' : null;
+};
+
+const convertToRate = (value: number, intervalMinutes: number): number => {
+  if (!Number.isFinite(value) || value <= 0) {
+    return 0;
+  }
+  return value * (60 / intervalMinutes);
+};
+
+const normalizeNumber = (value: number | null | undefined): number | null => {
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    return null;
+  }
+  return value;
+};
+
+const clampPercentage = (value: number): number => {
+  if (!Number.isFinite(value)) {
+    return 0;
+  }
+  return Math.max(0, Math.min(100, value));
+};
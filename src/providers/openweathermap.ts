@@ -1,7 +1,9 @@
-import { request } from 'undici';
 import type { Logger } from 'homebridge';
-import type { OpenWeatherMapConfig, WeatherProvider, WeatherNowcast, WeatherForecastSlice, PrecipType } from '../types';
+import type { OpenWeatherMapConfig, WeatherProvider, WeatherNowcast, WeatherForecastSlice, WeatherAlert, PrecipType } from '../types';
 import type { ResolvedLocation } from '../util/geo';
+import type { HttpRequest } from '../util/recording';
+import { makeHttpClient } from '../util/http';
+import { currentTime } from '../util/clock';
 
 interface OwmResponse {
   current?: {
@@ -9,7 +11,7 @@ interface OwmResponse {
     temp?: number;
     rain?: { [key: string]: number };
     snow?: { [key: string]: number };
-    weather?: Array<{ main?: string; description?: string }>;
+    weather?: Array<{ id?: number; main?: string; description?: string }>;
   };
   minutely?: Array<{ dt?: number; precipitation?: number }>;
   hourly?: Array<{
@@ -17,7 +19,14 @@ interface OwmResponse {
     pop?: number;
     rain?: { [key: string]: number };
     snow?: { [key: string]: number };
-    weather?: Array<{ main?: string; description?: string }>;
+    weather?: Array<{ id?: number; main?: string; description?: string }>;
+  }>;
+  alerts?: Array<{
+    sender_name?: string;
+    event?: string;
+    start?: number;
+    end?: number;
+    description?: string;
   }>;
 }
 
@@ -30,6 +39,7 @@ export class OpenWeatherMapProvider implements WeatherProvider {
     private readonly cfg: OpenWeatherMapConfig | undefined,
     private readonly location: ResolvedLocation | null,
     private readonly timeoutMs: number,
+    private readonly http: HttpRequest = makeHttpClient(log),
   ) {}
 
   isSupported(): boolean {
@@ -45,7 +55,7 @@ export class OpenWeatherMapProvider implements WeatherProvider {
     const type = resolveType(current.weather, precipRain, precipSnow);
 
     return {
-      ts: (current.dt ?? Math.floor(Date.now() / 1000)) * 1000,
+      ts: (current.dt ?? Math.floor(currentTime() / 1000)) * 1000,
       providerName: this.name,
       precipMmHr,
       pop: undefined,
@@ -56,7 +66,7 @@ export class OpenWeatherMapProvider implements WeatherProvider {
 
   async getForecast(lookaheadMinutes: number): Promise<WeatherForecastSlice[]> {
     const weather = await this.fetchWeather();
-    const now = Date.now();
+    const now = currentTime();
     const slices: WeatherForecastSlice[] = [];
 
     for (const minute of weather.minutely ?? []) {
@@ -97,8 +107,28 @@ export class OpenWeatherMapProvider implements WeatherProvider {
     return slices.sort((a, b) => a.ts - b.ts);
   }
 
+  async getAlerts(): Promise<WeatherAlert[]> {
+    const weather = await this.fetchWeather();
+    const alerts: WeatherAlert[] = [];
+    for (const alert of weather.alerts ?? []) {
+      if (!alert.event) {
+        continue;
+      }
+      alerts.push({
+        id: `${alert.sender_name ?? ''}:${alert.event}:${alert.start ?? 0}`,
+        providerName: this.name,
+        event: alert.event,
+        headline: alert.sender_name ? `${alert.event} - ${alert.sender_name}` : alert.event,
+        // OpenWeatherMap does not report a severity level, only the event name.
+        severity: 'unknown',
+        expires: alert.end != null ? alert.end * 1000 : undefined,
+      });
+    }
+    return alerts;
+  }
+
   private async fetchWeather(): Promise<OwmResponse> {
-    if (this.weatherCache && Date.now() - this.weatherCache.ts < 60_000) {
+    if (this.weatherCache && currentTime() - this.weatherCache.ts < 60_000) {
       return this.weatherCache.data;
     }
     if (!this.location || !this.cfg?.apiKey) {
@@ -110,8 +140,8 @@ export class OpenWeatherMapProvider implements WeatherProvider {
     url.searchParams.set('lon', this.location.lon.toString());
     url.searchParams.set('appid', this.cfg.apiKey);
     url.searchParams.set('units', 'metric');
-    url.searchParams.set('exclude', 'daily,alerts');
-    const { body, statusCode } = await request(url.toString(), {
+    url.searchParams.set('exclude', 'daily');
+    const { body, statusCode } = await this.http(url.toString(), {
       method: 'GET',
       bodyTimeout: this.timeoutMs,
       headersTimeout: this.timeoutMs,
@@ -122,7 +152,7 @@ export class OpenWeatherMapProvider implements WeatherProvider {
     }
     const text = await body.text();
     const parsed = JSON.parse(text) as OwmResponse;
-    this.weatherCache = { data: parsed, ts: Date.now() };
+    this.weatherCache = { data: parsed, ts: currentTime() };
     return parsed;
   }
 }
@@ -142,23 +172,58 @@ const extractOneHour = (bucket: { [key: string]: number } | undefined): number |
 };
 
 const resolveType = (
-  weather: Array<{ main?: string; description?: string }> | undefined,
+  weather: Array<{ id?: number; main?: string; description?: string }> | undefined,
   rain: number | null,
   snow: number | null,
 ): PrecipType => {
-  if ((snow ?? 0) > 0.01) {
-    return 'snow';
+  const entry = weather?.[0];
+  const fromCondition = typeof entry?.id === 'number' ? mapConditionId(entry.id) : null;
+  if (fromCondition) {
+    return fromCondition;
+  }
+  const hasSnow = (snow ?? 0) > 0.01;
+  const hasRain = (rain ?? 0) > 0.01;
+  if (hasSnow) {
+    return hasRain ? 'mixed' : 'snow';
   }
-  if ((rain ?? 0) > 0.01) {
+  if (hasRain) {
     return 'rain';
   }
-  const entry = weather?.[0];
   const text = (entry?.main ?? entry?.description ?? '').toLowerCase();
   if (text.includes('snow')) {
     return 'snow';
   }
-  if (text.includes('rain') || text.includes('drizzle') || text.includes('shower')) {
+  if (text.includes('drizzle')) {
+    return 'drizzle';
+  }
+  if (text.includes('rain') || text.includes('shower')) {
     return 'rain';
   }
   return 'none';
 };
+
+// OpenWeatherMap condition IDs: 2xx thunderstorm, 3xx drizzle, 5xx rain, 6xx snow.
+const mapConditionId = (id: number): PrecipType | null => {
+  if (id >= 200 && id < 300) {
+    return 'thunderstorm';
+  }
+  if (id >= 300 && id < 400) {
+    return 'drizzle';
+  }
+  if (id === 511) {
+    return 'freezing-rain';
+  }
+  if (id >= 500 && id < 600) {
+    return 'rain';
+  }
+  if (id >= 611 && id <= 613) {
+    return 'ice-pellets';
+  }
+  if (id === 615 || id === 616) {
+    return 'mixed';
+  }
+  if (id >= 600 && id < 700) {
+    return 'snow';
+  }
+  return null;
+};
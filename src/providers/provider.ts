@@ -1,21 +1,42 @@
 import type { Logger } from 'homebridge';
-import type { ProviderConfig, WeatherProvider, WeatherNowcast, WeatherForecastSlice } from '../types';
+import type { ProviderConfig, WeatherProvider, WeatherNowcast, WeatherForecastSlice, WeatherAlert, WeatherSnapshot } from '../types';
 import { WeatherKitProvider } from './weatherkit';
 import { OpenWeatherMapProvider } from './openweathermap';
 import { NwsProvider } from './nws';
 import { TomorrowProvider } from './tomorrow';
+import { OpenMeteoProvider } from './openmeteo';
+import { SimulatedProvider } from './simulated';
 import type { ResolvedLocation } from '../util/geo';
+import type { ProviderCallOutcome } from '../util/metrics';
+import type { HttpRequest, ProviderId } from '../util/recording';
+import type { QuotaTracker } from '../util/quota';
+import { currentTime } from '../util/clock';
 
 export interface ProviderChainOptions {
   timeoutMs: number;
   cacheTtlSeconds: number;
   retryBackoffSeconds: number[];
+  onProviderCall?: (provider: string, durationMs: number, outcome: ProviderCallOutcome) => void;
+  requestFor?: (provider: ProviderId) => HttpRequest;
+  storagePath?: string;
+  quota?: Pick<QuotaTracker, 'blockedReason'>;
+}
+
+export interface ProviderChainHealth {
+  providers: string[];
+  backoffIndex: number;
+  nextAllowedTs: number;
+  lastSuccess: { provider: string; ts: number } | null;
+  lastError: { message: string; ts: number } | null;
 }
 
 export interface ProviderChain {
+  getSnapshot(horizonMinutes: number, force?: boolean): Promise<WeatherSnapshot>;
   getNowcast(force?: boolean): Promise<WeatherNowcast>;
   getForecast(lookaheadMinutes: number, force?: boolean): Promise<WeatherForecastSlice[]>;
+  getAlerts(force?: boolean): Promise<WeatherAlert[]>;
   describe(): string;
+  getHealth(): ProviderChainHealth;
   markFailure(): void;
 }
 
@@ -33,13 +54,19 @@ export const makeProviderChain = (
 ): ProviderChain => {
   const opts: ProviderChainOptions = { ...DEFAULT_OPTIONS, ...options };
   const providers: WeatherProvider[] = [];
-  const mode = cfg?.mode ?? 'auto';
+  const providerIds = new Map<WeatherProvider, ProviderId>();
+  // Replay serves recorded responses to the same providers automatic mode would try.
+  const mode = !cfg?.mode || cfg.mode === 'replay' ? 'auto' : cfg.mode;
+  const http = (provider: ProviderId): HttpRequest | undefined => opts.requestFor?.(provider);
 
-  const addProvider = (factory: () => WeatherProvider): void => {
+  const addProvider = (factory: () => WeatherProvider, id?: ProviderId): void => {
     try {
       const provider = factory();
       if (provider.isSupported()) {
         providers.push(provider);
+        if (id) {
+          providerIds.set(provider, id);
+        }
       }
     } catch (error) {
       log.debug('Skipping provider: %s', (error as Error).message);
@@ -47,16 +74,24 @@ export const makeProviderChain = (
   };
 
   if (mode === 'weatherkit' || mode === 'auto') {
-    addProvider(() => new WeatherKitProvider(log, cfg?.weatherkit, location, opts.timeoutMs));
+    addProvider(() => new WeatherKitProvider(log, cfg?.weatherkit, location, opts.timeoutMs, http('weatherkit')), 'weatherkit');
   }
   if (mode === 'openweathermap' || mode === 'auto') {
-    addProvider(() => new OpenWeatherMapProvider(log, cfg?.openweathermap, location, opts.timeoutMs));
+    addProvider(() => new OpenWeatherMapProvider(log, cfg?.openweathermap, location, opts.timeoutMs, http('openweathermap')), 'openweathermap');
   }
   if ((mode === 'nws' || mode === 'auto') && (cfg?.nws?.enabled ?? true)) {
-    addProvider(() => new NwsProvider(log, cfg?.nws, location, opts.timeoutMs));
+    addProvider(() => new NwsProvider(log, cfg?.nws, location, opts.timeoutMs, http('nws')), 'nws');
   }
   if (mode === 'tomorrow' || mode === 'auto') {
-    addProvider(() => new TomorrowProvider(log, cfg?.tomorrow, location, opts.timeoutMs));
+    addProvider(() => new TomorrowProvider(log, cfg?.tomorrow, location, opts.timeoutMs, http('tomorrow')), 'tomorrow');
+  }
+  if ((mode === 'openmeteo' || mode === 'auto') && (cfg?.openmeteo?.enabled ?? true)) {
+    addProvider(() => new OpenMeteoProvider(log, cfg?.openmeteo, location, opts.timeoutMs, http('openmeteo')), 'openmeteo');
+  }
+
+  // Scenarios never join automatic mode; they replace real weather only when asked for.
+  if (mode === 'simulated') {
+    addProvider(() => new SimulatedProvider(log, cfg?.simulated, opts.storagePath));
   }
 
   if (!providers.length) {
@@ -66,84 +101,168 @@ export const makeProviderChain = (
   type CacheEntry<T> = { data: T; ts: number };
 
   let nowcastCache: CacheEntry<WeatherNowcast> | null = null;
-  const forecastCache = new Map<number, CacheEntry<WeatherForecastSlice[]>>();
+  let alertsCache: CacheEntry<WeatherAlert[]> | null = null;
+  let snapshotCache: CacheEntry<WeatherSnapshot> | null = null;
+  // Only the latest forecast is kept; lookaheads inside the last snapshot are answered from it.
+  let forecastCache: (CacheEntry<WeatherForecastSlice[]> & { horizonMinutes: number }) | null = null;
   let backoffIndex = 0;
   let nextAllowedTs = 0;
+  let lastSuccess: ProviderChainHealth['lastSuccess'] = null;
+  let lastError: ProviderChainHealth['lastError'] = null;
 
-  const pickProvider = async <T>(fn: (p: WeatherProvider) => Promise<T>): Promise<T> => {
-    let lastError: Error | null = null;
+  // Providers whose call budget is used up, or being spread out, are passed over quietly.
+  const isBlocked = (provider: WeatherProvider): boolean => {
+    const id = providerIds.get(provider);
+    const reason = id ? opts.quota?.blockedReason(id, Date.now()) : null;
+    if (reason) {
+      log.debug('Skipping %s: %s', provider.name, reason);
+    }
+    return Boolean(reason);
+  };
+
+  const pickProvider = async <T>(fn: (p: WeatherProvider) => Promise<T>, timeoutMs = opts.timeoutMs): Promise<T> => {
+    let failure: Error | null = null;
     for (const provider of providers) {
+      if (isBlocked(provider)) {
+        failure ??= new Error(`${provider.name} skipped to stay within its call budget`);
+        continue;
+      }
+      const startedAt = Date.now();
       try {
-        const result = await withTimeout(fn(provider), opts.timeoutMs);
+        const result = await withTimeout(fn(provider), timeoutMs);
+        opts.onProviderCall?.(provider.name, Date.now() - startedAt, 'success');
         backoffIndex = 0;
         nextAllowedTs = 0;
+        lastSuccess = { provider: provider.name, ts: currentTime() };
         return result;
       } catch (error) {
-        lastError = error as Error;
-        log.warn('%s provider failed: %s', provider.name, lastError.message);
+        opts.onProviderCall?.(provider.name, Date.now() - startedAt, error instanceof TimeoutError ? 'timeout' : 'failure');
+        failure = error as Error;
+        lastError = { message: `${provider.name}: ${failure.message}`, ts: currentTime() };
+        log.warn('%s provider failed: %s', provider.name, failure.message);
       }
     }
     backoffIndex = Math.min(backoffIndex + 1, opts.retryBackoffSeconds.length - 1);
-    nextAllowedTs = Date.now() + opts.retryBackoffSeconds[backoffIndex] * 1000;
-    throw lastError ?? new Error('All providers failed');
+    nextAllowedTs = currentTime() + opts.retryBackoffSeconds[backoffIndex] * 1000;
+    throw failure ?? new Error('All providers failed');
   };
 
   const isCacheValid = <T>(entry: CacheEntry<T> | undefined | null): entry is CacheEntry<T> => {
     if (!entry) {
       return false;
     }
-    return Date.now() - entry.ts < opts.cacheTtlSeconds * 1000;
+    return currentTime() - entry.ts < opts.cacheTtlSeconds * 1000;
   };
 
   return {
+    // Both parts come from the same provider, so every accessory sees one consistent picture.
+    async getSnapshot(horizonMinutes: number, force = false): Promise<WeatherSnapshot> {
+      const rounded = roundLookahead(horizonMinutes);
+      const cacheEntry = snapshotCache && snapshotCache.data.horizonMinutes >= rounded ? snapshotCache : null;
+      if (!force && isCacheValid(cacheEntry)) {
+        return cacheEntry.data;
+      }
+      if (nextAllowedTs && currentTime() < nextAllowedTs) {
+        if (isCacheValid(cacheEntry)) {
+          return cacheEntry.data;
+        }
+        const wait = Math.max(0, nextAllowedTs - currentTime());
+        throw new Error(`Providers backoff in effect for ${Math.round(wait / 1000)}s`);
+      }
+      // The calls run one after the other so providers that cache their last response fetch once.
+      const data = await pickProvider(async (p) => {
+        const nowcast = await p.getNowcast();
+        const forecast = await p.getForecast(rounded);
+        return { nowcast, forecast, horizonMinutes: rounded };
+      }, opts.timeoutMs * 2);
+      snapshotCache = { data, ts: currentTime() };
+      nowcastCache = { data: data.nowcast, ts: snapshotCache.ts };
+      return data;
+    },
     async getNowcast(force = false): Promise<WeatherNowcast> {
       if (!force && isCacheValid(nowcastCache)) {
         return nowcastCache.data;
       }
-      if (nextAllowedTs && Date.now() < nextAllowedTs) {
+      if (nextAllowedTs && currentTime() < nextAllowedTs) {
         if (isCacheValid(nowcastCache)) {
           return nowcastCache.data;
         }
-        const wait = Math.max(0, nextAllowedTs - Date.now());
+        const wait = Math.max(0, nextAllowedTs - currentTime());
         throw new Error(`Providers backoff in effect for ${Math.round(wait / 1000)}s`);
       }
       const data = await pickProvider((p) => p.getNowcast());
-      nowcastCache = { data, ts: Date.now() };
+      nowcastCache = { data, ts: currentTime() };
       return data;
     },
     async getForecast(lookaheadMinutes: number, force = false): Promise<WeatherForecastSlice[]> {
-      const rounded = Math.max(5, Math.ceil(lookaheadMinutes / 5) * 5);
-      const cacheEntry = forecastCache.get(rounded);
+      const rounded = roundLookahead(lookaheadMinutes);
+      if (!force && isCacheValid(snapshotCache) && snapshotCache.data.horizonMinutes >= rounded) {
+        return snapshotCache.data.forecast.filter((slice) => slice.minutesFromNow <= rounded);
+      }
+      const cacheEntry = forecastCache && forecastCache.horizonMinutes === rounded ? forecastCache : null;
       if (!force && isCacheValid(cacheEntry)) {
         return cacheEntry.data;
       }
-      if (nextAllowedTs && Date.now() < nextAllowedTs) {
+      if (nextAllowedTs && currentTime() < nextAllowedTs) {
         if (isCacheValid(cacheEntry)) {
           return cacheEntry.data;
         }
-        const wait = Math.max(0, nextAllowedTs - Date.now());
+        const wait = Math.max(0, nextAllowedTs - currentTime());
         throw new Error(`Providers backoff in effect for ${Math.round(wait / 1000)}s`);
       }
       const data = await pickProvider((p) => p.getForecast(rounded));
-      forecastCache.set(rounded, { data, ts: Date.now() });
+      forecastCache = { data, ts: currentTime(), horizonMinutes: rounded };
       return data;
     },
+    async getAlerts(force = false): Promise<WeatherAlert[]> {
+      if (!force && isCacheValid(alertsCache)) {
+        return alertsCache.data;
+      }
+      let failure: Error | null = null;
+      for (const provider of providers) {
+        if (!provider.getAlerts || isBlocked(provider)) {
+          continue;
+        }
+        try {
+          const data = await withTimeout(provider.getAlerts(), opts.timeoutMs);
+          alertsCache = { data, ts: currentTime() };
+          return data;
+        } catch (error) {
+          failure = error as Error;
+          log.warn('%s alerts failed: %s', provider.name, failure.message);
+        }
+      }
+      throw failure ?? new Error('No enabled provider supports weather alerts');
+    },
     describe(): string {
       return providers.map((p) => p.name).join(' -> ');
     },
+    getHealth(): ProviderChainHealth {
+      return {
+        providers: providers.map((p) => p.name),
+        backoffIndex,
+        nextAllowedTs,
+        lastSuccess,
+        lastError,
+      };
+    },
     markFailure(): void {
       backoffIndex = Math.min(backoffIndex + 1, opts.retryBackoffSeconds.length - 1);
-      nextAllowedTs = Date.now() + opts.retryBackoffSeconds[backoffIndex] * 1000;
+      nextAllowedTs = currentTime() + opts.retryBackoffSeconds[backoffIndex] * 1000;
     },
   };
 };
 
+class TimeoutError extends Error {}
+
+const roundLookahead = (minutes: number): number => Math.max(5, Math.ceil(minutes / 5) * 5);
+
 const withTimeout = async <T>(promise: Promise<T>, timeoutMs: number): Promise<T> => {
   let timer: ReturnType<typeof setTimeout>;
   return await Promise.race([
     promise.finally(() => clearTimeout(timer)),
     new Promise<T>((_, reject) => {
-      timer = setTimeout(() => reject(new Error(`Timed out after ${timeoutMs}ms`)), timeoutMs);
+      timer = setTimeout(() => reject(new TimeoutError(`Timed out after ${timeoutMs}ms`)), timeoutMs);
     }),
   ]);
 };
@@ -0,0 +1,194 @@
+import { readFile } from 'fs/promises';
+import path from 'path';
+import { load as loadYaml } from 'js-yaml';
+import type { Logger } from 'homebridge';
+import type { PrecipType, SimulatedConfig, WeatherProvider, WeatherNowcast, WeatherForecastSlice } from '../types';
+import { currentTime } from '../util/clock';
+import { parsePrecipType } from '../util/precip';
+
+interface ScenarioStepConfig {
+  minutes?: number;
+  type?: string;
+  precipMmHr?: number;
+  rampToMmHr?: number;
+  pop?: number;
+  temperatureC?: number;
+}
+
+interface ScenarioFile {
+  repeat?: boolean;
+  steps?: ScenarioStepConfig[];
+}
+
+interface ScenarioStep {
+  startMs: number;
+  durationMs: number;
+  type: PrecipType;
+  fromMmHr: number;
+  toMmHr: number;
+  pop?: number;
+  temperatureC?: number;
+}
+
+interface Scenario {
+  steps: ScenarioStep[];
+  durationMs: number;
+  repeat: boolean;
+}
+
+interface ScenarioSample {
+  precipMmHr: number;
+  pop?: number;
+  type: PrecipType;
+  temperatureC?: number;
+}
+
+const FORECAST_STEP_MINUTES = 5;
+// Used when a wet step names a type but no intensity.
+const DEFAULT_WET_MM_PER_HR = 1;
+
+export class SimulatedProvider implements WeatherProvider {
+  public readonly name = 'Simulated';
+  private scenario: Promise<Scenario> | null = null;
+  private startedAt: number | null = null;
+
+  constructor(
+    private readonly log: Logger,
+    private readonly cfg: SimulatedConfig | undefined,
+    private readonly storagePath: string | undefined,
+  ) {}
+
+  isSupported(): boolean {
+    return Boolean(this.cfg?.scenario);
+  }
+
+  async getNowcast(): Promise<WeatherNowcast> {
+    const scenario = await this.loadScenario();
+    const now = currentTime();
+    const sample = sampleAt(scenario, this.elapsedMs(now));
+    return {
+      ts: now,
+      providerName: this.name,
+      ...sample,
+    };
+  }
+
+  async getForecast(lookaheadMinutes: number): Promise<WeatherForecastSlice[]> {
+    const scenario = await this.loadScenario();
+    const now = currentTime();
+    const elapsed = this.elapsedMs(now);
+    const slices: WeatherForecastSlice[] = [];
+    for (let minutesFromNow = 0; minutesFromNow <= lookaheadMinutes; minutesFromNow += FORECAST_STEP_MINUTES) {
+      const sample = sampleAt(scenario, elapsed + minutesFromNow * 60_000 * this.speed);
+      slices.push({
+        ts: now + minutesFromNow * 60_000,
+        minutesFromNow,
+        providerName: this.name,
+        precipMmHr: sample.precipMmHr,
+        pop: sample.pop,
+        type: sample.type,
+      });
+    }
+    return slices;
+  }
+
+  private get speed(): number {
+    const speed = this.cfg?.speed ?? 1;
+    return Number.isFinite(speed) && speed > 0 ? speed : 1;
+  }
+
+  // The timeline starts with the first request and runs `speed` times faster than the clock.
+  private elapsedMs(now: number): number {
+    if (this.startedAt == null) {
+      this.startedAt = now;
+    }
+    return Math.max(0, now - this.startedAt) * this.speed;
+  }
+
+  private loadScenario(): Promise<Scenario> {
+    if (!this.scenario) {
+      this.scenario = this.readScenario();
+      // A broken file is read again on the next poll so it can be fixed without a restart.
+      void this.scenario.catch(() => {
+        this.scenario = null;
+      });
+    }
+    return this.scenario;
+  }
+
+  private async readScenario(): Promise<Scenario> {
+    const file = this.cfg?.scenario;
+    if (!file) {
+      throw new Error('No scenario file configured');
+    }
+    const resolved = path.isAbsolute(file) || !this.storagePath ? file : path.join(this.storagePath, file);
+    let parsed: unknown;
+    try {
+      const contents = await readFile(resolved, 'utf8');
+      parsed = /\.ya?ml$/i.test(resolved) ? loadYaml(contents) : JSON.parse(contents);
+    } catch (error) {
+      throw new Error(`Failed to read scenario ${resolved}: ${(error as Error).message}`);
+    }
+    const scenario = buildScenario(parsed as ScenarioFile, this.cfg?.repeat);
+    this.log.info(
+      '[Simulated] Loaded %d scenario steps (%d minutes) from %s',
+      scenario.steps.length,
+      Math.round(scenario.durationMs / 60_000),
+      resolved,
+    );
+    return scenario;
+  }
+}
+
+const buildScenario = (file: ScenarioFile | null | undefined, repeatOverride: boolean | undefined): Scenario => {
+  if (!file || !Array.isArray(file.steps) || !file.steps.length) {
+    throw new Error('Scenario must define a non-empty "steps" list');
+  }
+  const steps: ScenarioStep[] = [];
+  let startMs = 0;
+  file.steps.forEach((step, index) => {
+    const minutes = step?.minutes;
+    if (typeof minutes !== 'number' || !Number.isFinite(minutes) || minutes <= 0) {
+      throw new Error(`Scenario step ${index + 1} needs a positive "minutes" value`);
+    }
+    const type = step.type != null ? parsePrecipType(String(step.type)) : undefined;
+    if (type === null) {
+      throw new Error(`Scenario step ${index + 1} has an unknown type "${String(step.type)}"`);
+    }
+    const wet = type != null && type !== 'none';
+    const fromMmHr = step.precipMmHr == null && wet ? DEFAULT_WET_MM_PER_HR : normalizeRate(step.precipMmHr);
+    const toMmHr = step.rampToMmHr != null ? normalizeRate(step.rampToMmHr) : fromMmHr;
+    steps.push({
+      startMs,
+      durationMs: minutes * 60_000,
+      type: type ?? (Math.max(fromMmHr, toMmHr) > 0 ? 'rain' : 'none'),
+      fromMmHr,
+      toMmHr,
+      pop: typeof step.pop === 'number' && Number.isFinite(step.pop) ? Math.max(0, Math.min(100, step.pop)) : undefined,
+      temperatureC: typeof step.temperatureC === 'number' && Number.isFinite(step.temperatureC) ? step.temperatureC : undefined,
+    });
+    startMs += minutes * 60_000;
+  });
+  return { steps, durationMs: startMs, repeat: repeatOverride ?? file.repeat ?? false };
+};
+
+// Past the end the scenario either starts over or holds its final step.
+const sampleAt = (scenario: Scenario, elapsedMs: number): ScenarioSample => {
+  const offset = scenario.repeat ? elapsedMs % scenario.durationMs : Math.min(elapsedMs, scenario.durationMs);
+  const step = scenario.steps.find((entry) => offset < entry.startMs + entry.durationMs) ?? scenario.steps[scenario.steps.length - 1];
+  const progress = Math.max(0, Math.min(1, (offset - step.startMs) / step.durationMs));
+  const precipMmHr = step.type === 'none' ? 0 : step.fromMmHr + (step.toMmHr - step.fromMmHr) * progress;
+  return {
+    precipMmHr,
+    pop: step.pop ?? (precipMmHr > 0 ? 100 : 0),
+    type: precipMmHr > 0 ? step.type : 'none',
+    temperatureC: step.temperatureC,
+  };
+};
+
+const normalizeRate = (value: number | undefined): number => {
+  if (typeof value !== 'number' || !Number.isFinite(value) || value <= 0) {
+    return 0;
+  }
+  return value;
+};
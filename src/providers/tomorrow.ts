@@ -1,7 +1,9 @@
-import { request } from 'undici';
 import type { Logger } from 'homebridge';
 import type { TomorrowConfig, WeatherProvider, WeatherNowcast, WeatherForecastSlice, PrecipType } from '../types';
 import type { ResolvedLocation } from '../util/geo';
+import type { HttpRequest } from '../util/recording';
+import { makeHttpClient } from '../util/http';
+import { currentTime } from '../util/clock';
 
 interface TomorrowResponse {
   timelines?: Array<{
@@ -12,6 +14,7 @@ interface TomorrowResponse {
         precipitationIntensity?: number | null;
         precipitationProbability?: number | null;
         precipitationType?: number | null;
+        weatherCode?: number | null;
       };
     }>;
   }>;
@@ -33,6 +36,7 @@ export class TomorrowProvider implements WeatherProvider {
     private readonly cfg: TomorrowConfig | undefined,
     private readonly location: ResolvedLocation | null,
     private readonly timeoutMs: number,
+    private readonly http: HttpRequest = makeHttpClient(log),
   ) {}
 
   isSupported(): boolean {
@@ -41,9 +45,9 @@ export class TomorrowProvider implements WeatherProvider {
 
   async getNowcast(): Promise<WeatherNowcast> {
     const data = await this.fetchForecast();
-    const interval = selectBestInterval(data, Date.now());
+    const interval = selectBestInterval(data, currentTime());
     return {
-      ts: interval?.ts ?? Date.now(),
+      ts: interval?.ts ?? currentTime(),
       providerName: this.name,
       precipMmHr: interval?.precipMmHr ?? 0,
       pop: interval?.pop,
@@ -54,7 +58,7 @@ export class TomorrowProvider implements WeatherProvider {
 
   async getForecast(lookaheadMinutes: number): Promise<WeatherForecastSlice[]> {
     const data = await this.fetchForecast();
-    const now = Date.now();
+    const now = currentTime();
     const intervals = collectIntervals(data);
     const slices: WeatherForecastSlice[] = [];
     for (const entry of intervals) {
@@ -75,7 +79,7 @@ export class TomorrowProvider implements WeatherProvider {
   }
 
   private async fetchForecast(): Promise<TomorrowResponse> {
-    if (this.forecastCache && Date.now() - this.forecastCache.ts < 60_000) {
+    if (this.forecastCache && currentTime() - this.forecastCache.ts < 60_000) {
       return this.forecastCache.data;
     }
     if (!this.location || !this.cfg?.apiKey) {
@@ -85,10 +89,10 @@ export class TomorrowProvider implements WeatherProvider {
     const url = new URL('https://api.tomorrow.io/v4/weather/forecast');
     url.searchParams.set('location', `${this.location.lat},${this.location.lon}`);
     url.searchParams.set('timesteps', '1m,1h');
-    url.searchParams.set('fields', 'precipitationIntensity,precipitationProbability,precipitationType');
+    url.searchParams.set('fields', 'precipitationIntensity,precipitationProbability,precipitationType,weatherCode');
     url.searchParams.set('units', 'metric');
     url.searchParams.set('apikey', this.cfg.apiKey);
-    const { body, statusCode } = await request(url.toString(), {
+    const { body, statusCode } = await this.http(url.toString(), {
       method: 'GET',
       headers: {
         Accept: 'application/json',
@@ -102,7 +106,7 @@ export class TomorrowProvider implements WeatherProvider {
     }
     const text = await body.text();
     const parsed = JSON.parse(text) as TomorrowResponse;
-    this.forecastCache = { data: parsed, ts: Date.now() };
+    this.forecastCache = { data: parsed, ts: currentTime() };
     return parsed;
   }
 }
@@ -128,7 +132,7 @@ const collectIntervals = (data: TomorrowResponse): IntervalEntry[] => {
       const values = interval.values ?? {};
       const precip = typeof values.precipitationIntensity === 'number' ? Math.max(0, values.precipitationIntensity) : 0;
       const popRaw = typeof values.precipitationProbability === 'number' ? values.precipitationProbability : undefined;
-      const type = mapPrecipitationType(values.precipitationType);
+      const type = mapPrecipitationType(values.precipitationType, values.weatherCode);
       intervals.push({
         ts,
         precipMmHr: precip,
@@ -143,15 +147,21 @@ const collectIntervals = (data: TomorrowResponse): IntervalEntry[] => {
   return intervals.sort((a, b) => a.ts - b.ts);
 };
 
-const mapPrecipitationType = (value: number | null | undefined): PrecipType => {
+// precipitationType: 1 rain, 2 snow, 3 freezing rain, 4 ice pellets. The weather code adds
+// drizzle (4000) and thunderstorms (8000), which the type alone cannot express.
+const mapPrecipitationType = (value: number | null | undefined, weatherCode: number | null | undefined): PrecipType => {
+  if (weatherCode === 8000) {
+    return 'thunderstorm';
+  }
   switch (value) {
     case 1:
-      return 'rain';
+      return weatherCode === 4000 ? 'drizzle' : 'rain';
     case 2:
       return 'snow';
     case 3:
+      return 'freezing-rain';
     case 4:
-      return 'sleet';
+      return 'ice-pellets';
     default:
       return 'none';
   }
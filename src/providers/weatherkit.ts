@@ -1,15 +1,28 @@
 import { readFile } from 'fs/promises';
 import { SignJWT, importPKCS8 } from 'jose';
-import { request } from 'undici';
 import type { Logger } from 'homebridge';
 import type { WeatherKitConfig } from '../types';
-import type { WeatherProvider, WeatherNowcast, WeatherForecastSlice, PrecipType } from '../types';
+import type { WeatherProvider, WeatherNowcast, WeatherForecastSlice, WeatherAlert, PrecipType } from '../types';
 import type { ResolvedLocation } from '../util/geo';
+import type { HttpRequest } from '../util/recording';
+import { makeHttpClient } from '../util/http';
+import { currentTime } from '../util/clock';
+import { parseAlertSeverity } from '../util/alerts';
 
 interface WeatherKitResponse {
   currentWeather?: WeatherKitCurrentWeather;
   forecastNextHour?: { minutes?: WeatherKitMinuteEntry[] };
   forecastHourly?: { hours?: WeatherKitHourEntry[] };
+  weatherAlerts?: { alerts?: WeatherKitAlertEntry[] };
+}
+
+interface WeatherKitAlertEntry {
+  id?: string;
+  description?: string;
+  areaName?: string;
+  severity?: string;
+  expireTime?: string;
+  eventEndTime?: string;
 }
 
 interface WeatherKitCurrentWeather {
@@ -33,20 +46,30 @@ interface WeatherKitHourEntry {
   precipitationIntensity?: number | null;
   precipitationChance?: number | null;
   precipitationType?: string | null;
+  conditionCode?: string;
 }
 
+const RAIN_REFINEMENTS: PrecipType[] = ['drizzle', 'freezing-rain', 'thunderstorm', 'hail'];
+
 export class WeatherKitProvider implements WeatherProvider {
   public readonly name = 'Apple WeatherKit';
   private keyPromise: ReturnType<typeof importPKCS8> | null = null;
   private tokenCache: { token: string; exp: number } | null = null;
   private weatherCache: { data: WeatherKitResponse; ts: number } | null = null;
+  // Apple only serves the weatherAlerts data set when a country code is supplied.
+  public readonly getAlerts?: () => Promise<WeatherAlert[]>;
 
   constructor(
     private readonly log: Logger,
     private readonly cfg: WeatherKitConfig | undefined,
     private readonly location: ResolvedLocation | null,
     private readonly timeoutMs: number,
-  ) {}
+    private readonly http: HttpRequest = makeHttpClient(log),
+  ) {
+    if (cfg?.countryCode) {
+      this.getAlerts = () => this.fetchAlerts();
+    }
+  }
 
   isSupported(): boolean {
     return Boolean(this.cfg?.teamId && this.cfg?.keyId && this.cfg?.privateKey && this.location);
@@ -55,11 +78,11 @@ export class WeatherKitProvider implements WeatherProvider {
   async getNowcast(): Promise<WeatherNowcast> {
     const weather = await this.fetchWeather();
     const current = weather.currentWeather ?? {};
-    const now = Date.now();
+    const now = currentTime();
     const intensity = normalizeNumber(current.precipitationIntensity) ?? 0;
     const minuteEntry = weather.forecastNextHour?.minutes?.[0];
     const pop = normalizeNumber(current.precipitationChance ?? minuteEntry?.precipitationChance);
-    const type = resolvePrecipType(current.precipitationType ?? minuteEntry?.precipitationType ?? current.conditionCode);
+    const type = resolvePrecipType(current.precipitationType ?? minuteEntry?.precipitationType, current.conditionCode);
 
     return {
       ts: now,
@@ -73,7 +96,7 @@ export class WeatherKitProvider implements WeatherProvider {
 
   async getForecast(lookaheadMinutes: number): Promise<WeatherForecastSlice[]> {
     const weather = await this.fetchWeather();
-    const now = Date.now();
+    const now = currentTime();
     const slices: WeatherForecastSlice[] = [];
 
     for (const minute of weather.forecastNextHour?.minutes ?? []) {
@@ -110,24 +133,49 @@ export class WeatherKitProvider implements WeatherProvider {
         providerName: this.name,
         precipMmHr: normalizeNumber(hour.precipitationIntensity) ?? 0,
         pop: hour.precipitationChance != null ? normalizeProbability(hour.precipitationChance) : undefined,
-        type: resolvePrecipType(hour.precipitationType),
+        type: resolvePrecipType(hour.precipitationType, hour.conditionCode),
       });
     }
 
     return slices.sort((a, b) => a.ts - b.ts);
   }
 
+  private async fetchAlerts(): Promise<WeatherAlert[]> {
+    const weather = await this.fetchWeather();
+    const alerts: WeatherAlert[] = [];
+    for (const alert of weather.weatherAlerts?.alerts ?? []) {
+      if (!alert.description) {
+        continue;
+      }
+      const expires = parseTime(alert.eventEndTime ?? alert.expireTime);
+      alerts.push({
+        id: alert.id ?? alert.description,
+        providerName: this.name,
+        event: alert.description,
+        headline: alert.areaName ? `${alert.description} - ${alert.areaName}` : alert.description,
+        severity: parseAlertSeverity(alert.severity),
+        expires: expires ?? undefined,
+      });
+    }
+    return alerts;
+  }
+
   private async fetchWeather(): Promise<WeatherKitResponse> {
-    if (this.weatherCache && Date.now() - this.weatherCache.ts < 60_000) {
+    if (this.weatherCache && currentTime() - this.weatherCache.ts < 60_000) {
       return this.weatherCache.data;
     }
     if (!this.location) {
       throw new Error('No location provided');
     }
     const token = await this.getToken();
+    const dataSets = ['weatherCurrent', 'weatherForecastHourly', 'weatherForecastNextHour'];
+    if (this.cfg?.countryCode) {
+      dataSets.push('weatherAlerts');
+    }
     const url = `https://weatherkit.apple.com/api/v1/weather/en/${this.location.lat}/${this.location.lon}` +
-      '?dataSets=weatherCurrent,weatherForecastHourly,weatherForecastNextHour';
-    const { body, statusCode } = await request(url, {
+      `?dataSets=${dataSets.join(',')}` +
+      (this.cfg?.countryCode ? `&countryCode=${encodeURIComponent(this.cfg.countryCode)}` : '');
+    const { body, statusCode } = await this.http(url, {
       method: 'GET',
       headers: {
         Authorization: `Bearer ${token}`,
@@ -141,7 +189,7 @@ export class WeatherKitProvider implements WeatherProvider {
     }
     const text = await body.text();
     const parsed = JSON.parse(text) as WeatherKitResponse;
-    this.weatherCache = { data: parsed, ts: Date.now() };
+    this.weatherCache = { data: parsed, ts: currentTime() };
     return parsed;
   }
 
@@ -205,19 +253,45 @@ const parseTime = (value: string | undefined): number | null => {
   return Number.isFinite(ts) ? ts : null;
 };
 
-const resolvePrecipType = (value: string | null | undefined): PrecipType => {
+// precipitationType only distinguishes rain, snow, sleet, hail, and mixed; when it says rain (or
+// just "precipitation") the condition code can tell drizzle, freezing rain, and thunderstorms apart.
+const resolvePrecipType = (value: string | null | undefined, conditionCode?: string | null): PrecipType => {
+  const condition = classifyPrecip(conditionCode);
   if (!value) {
-    return 'none';
+    return condition;
+  }
+  if (value.toLowerCase() === 'precipitation') {
+    return condition !== 'none' ? condition : 'rain';
+  }
+  const type = classifyPrecip(value);
+  return type === 'rain' && RAIN_REFINEMENTS.includes(condition) ? condition : type;
+};
+
+const classifyPrecip = (value: string | null | undefined): PrecipType => {
+  const normalized = (value ?? '').toLowerCase();
+  if (normalized.includes('hail')) {
+    return 'hail';
+  }
+  if (normalized.includes('mix')) {
+    return 'mixed';
+  }
+  if (normalized.includes('thunder') || normalized === 'strongstorms') {
+    return 'thunderstorm';
+  }
+  if (normalized.includes('freezing')) {
+    return 'freezing-rain';
+  }
+  if (normalized.includes('sleet')) {
+    return 'ice-pellets';
   }
-  const normalized = value.toLowerCase();
-  if (normalized.includes('snow')) {
+  if (normalized.includes('snow') || normalized.includes('flurries') || normalized === 'blizzard') {
     return 'snow';
   }
-  if (normalized.includes('sleet') || normalized.includes('mix')) {
-    return 'sleet';
+  if (normalized.includes('drizzle')) {
+    return 'drizzle';
   }
-  if (normalized.includes('rain') || normalized.includes('drizzle') || normalized.includes('showers')) {
+  if (normalized.includes('rain') || normalized.includes('showers') || normalized === 'precipitation') {
     return 'rain';
   }
-  return normalized === 'clear' ? 'none' : 'none';
+  return 'none';
 };
@@ -1,31 +1,90 @@
-import type { Characteristic, PlatformAccessory, Service } from 'homebridge';
-import type { RainAccessoryConfig, WeatherNowcast, WeatherForecastSlice } from './types';
+import type { Characteristic, PlatformAccessory, Service, ServiceConstructor } from 'homebridge';
+import type { RainAccessoryConfig, WeatherNowcast, WeatherForecastSlice, WeatherSnapshot, WeatherAlert, ServiceType } from './types';
 import { makeHysteresis, type HysteresisState } from './util/hysteresis';
+import { findPrecipitationCountdown } from './util/forecast';
+import {
+  DEFAULT_RAIN_THRESHOLD,
+  MAX_DELAY_HOURS,
+  irrigationDelayHours,
+  isRainingNow,
+  isSnowingNow,
+  matchForecast,
+  measureDrySpell,
+  measureIrrigationRain,
+  measureRainTotal,
+  selectAlert,
+  type ForecastResult,
+} from './util/decision';
 import type { RainSwitchPlatform } from './platform';
+import type { WeatherSite } from './site';
+import type { EveHistory } from './util/eveHistory';
+import { makeSchedule, type Schedule } from './util/schedule';
+import { compileRule, describeRuleError, RuleSyntaxError, type CompiledRule } from './util/rule';
+import { currentTime } from './util/clock';
 
 interface AccessoryMetadata {
   lastUpdate: number;
   providerName: string;
   precipMmHr: number;
   probability?: number;
+  rainTotalMm?: number;
+  alertHeadline?: string;
+  alertExpires?: number;
+  drySpellMinutes?: number;
+  minutesUntilStart?: number | null;
+  minutesUntilEnd?: number | null;
 }
 
-interface ForecastResult {
-  triggeredSlice?: WeatherForecastSlice | null;
-  shouldActivate: boolean;
+interface PersistedAccessoryState {
+  on: boolean;
+  overrideState: boolean | null;
+  overrideUntil: number;
+  lastFlip: number;
+  delayUntil?: number;
+  metadata: AccessoryMetadata;
+}
+
+export interface AccessoryStatus {
+  name: string;
+  type: RainAccessoryConfig['type'];
+  location: string;
+  on: boolean;
+  faulted: boolean;
+  override: { state: boolean; until: number } | null;
+  hysteresis: { state: boolean; lastFlip: number; pendingPolls: number };
+  metadata: AccessoryMetadata;
+}
+
+interface ServiceDefinition {
+  service: ServiceConstructor;
+  characteristic: Characteristic;
+  writable: boolean;
+  toValue(state: boolean): boolean | number;
 }
 
 export class RainAccessory {
   public readonly accessory: PlatformAccessory;
-  private readonly switchService: Service;
+  private readonly service: Service;
+  private readonly serviceDefinition: ServiceDefinition;
   private readonly hysteresis: HysteresisState;
   private readonly customCharacteristics = ensureCustomCharacteristics(this.platform);
   private readonly overrideMinutes?: number;
+  private readonly eveHistory: EveHistory | null;
+  // A replay runs on simulated time, so it neither touches HomeKit nor saves its state into the
+  // accessory context; the live state stays in place for when the replay is switched off.
+  private readonly detached: boolean;
+  private readonly rule: CompiledRule | null = null;
+  private readonly schedule: Schedule | null = null;
+  private lastRuleError = '';
+  private lastAlertError = '';
   private readonly metadataCharacteristics: Partial<Record<keyof CustomCharacteristicSet, Characteristic>> = {};
 
   private currentState = false;
+  // The state HomeKit was last told about.
+  private publishedState = false;
   private overrideState: boolean | null = null;
   private overrideUntil = 0;
+  private delayUntil = 0;
   private faulted = false;
   private metadata: AccessoryMetadata = {
     lastUpdate: 0,
@@ -35,32 +94,80 @@ export class RainAccessory {
 
   constructor(
     private readonly platform: RainSwitchPlatform,
+    private readonly site: WeatherSite,
     accessory: PlatformAccessory,
     private readonly config: RainAccessoryConfig,
   ) {
     this.accessory = accessory;
+    this.detached = site.isReplaying();
     this.overrideMinutes = platform.getOverrideMinutes();
 
-    this.switchService = this.accessory.getService(this.platform.Service.Switch)
-      ?? this.accessory.addService(this.platform.Service.Switch, config.name);
+    const serviceType = config.serviceType ?? 'switch';
+    this.serviceDefinition = resolveServiceDefinition(this.platform, serviceType);
+    this.removeStaleServices(serviceType);
+
+    this.service = this.accessory.getService(this.serviceDefinition.service)
+      ?? this.accessory.addService(this.serviceDefinition.service, config.name);
 
-    this.switchService.setCharacteristic(this.platform.Characteristic.Name, config.name);
-    this.switchService.updateCharacteristic(this.platform.Characteristic.StatusFault, this.platform.Characteristic.StatusFault.NO_FAULT);
+    this.service.setCharacteristic(this.platform.Characteristic.Name, config.name);
+    this.service.updateCharacteristic(this.platform.Characteristic.StatusFault, this.platform.Characteristic.StatusFault.NO_FAULT);
 
-    this.switchService.getCharacteristic(this.platform.Characteristic.On)
-      .onSet(this.handleSetOn.bind(this))
-      .onGet(() => this.currentState);
+    const stateCharacteristic = this.service.getCharacteristic(this.serviceDefinition.characteristic)
+      .onGet(() => this.serviceDefinition.toValue(this.publishedState));
+    if (this.serviceDefinition.writable) {
+      stateCharacteristic.onSet(this.handleSetOn.bind(this));
+    }
 
-    this.hysteresis = makeHysteresis(this.platform.getHysteresisConfig());
+    this.hysteresis = makeHysteresis(this.platform.getHysteresisConfig(config));
+    this.eveHistory = site.isReplaying() || site.isSimulated() ? null : this.platform.createEveHistory(this.accessory);
+    if (config.type === 'custom') {
+      this.rule = this.compileRule();
+    }
+    if (config.schedule?.length) {
+      this.schedule = makeSchedule(config.schedule, (message) => this.platform.log.warn('%s %s', config.name, message));
+    }
 
     this.ensureOptionalCharacteristic('lastUpdate');
     this.ensureOptionalCharacteristic('providerName');
     this.ensureOptionalCharacteristic('precipIntensity');
     this.ensureOptionalCharacteristic('probability');
+    this.ensureOptionalCharacteristic('minutesUntilStart');
+    this.ensureOptionalCharacteristic('minutesUntilEnd');
+    if (config.type === 'rain-total' || config.type === 'irrigation-skip') {
+      this.ensureOptionalCharacteristic('rainTotal');
+    }
+    if (config.type === 'irrigation-skip') {
+      this.ensureOptionalCharacteristic('delayRemaining');
+    }
+    if (config.type === 'dry-window') {
+      this.ensureOptionalCharacteristic('drySpell');
+    }
+    if (config.type === 'alerts') {
+      this.ensureOptionalCharacteristic('alertHeadline');
+      this.ensureOptionalCharacteristic('alertExpires');
+    }
+
+    this.restoreState();
+  }
+
+  saveState(): void {
+    if (this.detached) {
+      return;
+    }
+    const state: PersistedAccessoryState = {
+      on: this.currentState,
+      overrideState: this.overrideState,
+      overrideUntil: this.overrideUntil,
+      lastFlip: this.hysteresis.getLastFlip(),
+      delayUntil: this.delayUntil,
+      metadata: { ...this.metadata },
+    };
+    this.accessory.context.state = state;
   }
 
-  async evaluate(weather: WeatherNowcast): Promise<void> {
-    const now = Date.now();
+  async evaluate(snapshot: WeatherSnapshot): Promise<void> {
+    const { nowcast: weather, forecast } = snapshot;
+    const now = currentTime();
     const quiet = this.platform.isWithinQuietHours(now);
 
     this.metadata = {
@@ -69,6 +176,7 @@ export class RainAccessory {
       precipMmHr: weather.precipMmHr,
       probability: weather.pop,
     };
+    this.updateCountdown(weather, forecast, now);
 
     if (this.overrideUntil && now < this.overrideUntil && this.overrideState !== null) {
       this.platform.debug('%s is in manual override until %s', this.config.name, new Date(this.overrideUntil).toISOString());
@@ -89,28 +197,109 @@ export class RainAccessory {
     let desired = false;
 
     if (this.config.type === 'rain-now') {
-      desired = isRain(weather) && weather.precipMmHr >= (this.config.thresholdMmPerHr ?? DEFAULT_RAIN_THRESHOLD);
+      desired = isRainingNow(this.config, weather, this.hysteresis.getState());
     } else if (this.config.type === 'rain-soon') {
-      forecastOutcome = await this.evaluateForecast('rain');
+      forecastOutcome = matchForecast(this.config, forecast, 'rain');
       desired = forecastOutcome.shouldActivate;
     } else if (this.config.type === 'snow-mode') {
-      const threshold = this.config.thresholdMmPerHr ?? DEFAULT_SNOW_THRESHOLD;
-      const nowActive = weather.type === 'snow' && weather.precipMmHr >= threshold;
-      forecastOutcome = await this.evaluateForecast('snow');
+      const nowActive = isSnowingNow(this.config, weather, this.hysteresis.getState());
+      forecastOutcome = matchForecast(this.config, forecast, 'snow');
       desired = nowActive || forecastOutcome.shouldActivate;
+    } else if (this.config.type === 'rain-total') {
+      const { totalMm, reached } = measureRainTotal(this.config, (windowHours) => this.site.getRainfallTotal(windowHours, now));
+      this.metadata.rainTotalMm = totalMm;
+      desired = reached;
+    } else if (this.config.type === 'irrigation-skip') {
+      desired = this.evaluateIrrigation(weather, forecast, now);
+    } else if (this.config.type === 'dry-window') {
+      desired = this.evaluateDryWindow(weather, forecast);
+    } else if (this.config.type === 'alerts') {
+      const outcome = await this.evaluateAlerts(now);
+      if (outcome === null) {
+        this.publishMetadata(weather, null);
+        this.markFault();
+        return;
+      }
+      desired = outcome;
+    } else if (this.config.type === 'custom') {
+      const outcome = this.evaluateRule(weather, forecast, now);
+      if (outcome === null) {
+        this.publishMetadata(weather, null);
+        this.markFault();
+        return;
+      }
+      desired = outcome;
     }
 
-    if (quiet) {
-      this.platform.debug('Quiet hours active for %s; keeping state %s', this.config.name, this.currentState ? 'ON' : 'OFF');
+    const scheduled = this.schedule?.activeBehaviour(now, this.site.getLocation()) ?? null;
+    if (scheduled === 'on' || scheduled === 'off') {
+      const forced = scheduled === 'on';
+      this.platform.debug('Schedule forces %s %s', this.config.name, forced ? 'ON' : 'OFF');
+      this.updateState(forced, true);
+      // Start from a clean slate so automatic control resumes immediately when the window ends.
+      this.hysteresis.reset(forced);
+      this.publishMetadata(weather, forecastOutcome?.triggeredSlice ?? null);
+      this.clearFault();
+      return;
+    }
+
+    if (quiet || scheduled === 'hold') {
+      this.platform.debug('%s active for %s; keeping state %s', quiet ? 'Quiet hours' : 'Schedule hold', this.config.name, this.currentState ? 'ON' : 'OFF');
       this.publishMetadata(weather, forecastOutcome?.triggeredSlice ?? null);
       this.clearFault();
       return;
     }
 
     const nextState = this.hysteresis.next(desired, now);
+    if (nextState !== desired) {
+      this.platform.debug('%s holding %s (%d poll(s) asked for %s)', this.config.name, nextState ? 'ON' : 'OFF', this.hysteresis.getPendingPolls(), desired ? 'ON' : 'OFF');
+    }
     this.updateState(nextState, desired !== this.currentState);
     this.publishMetadata(weather, forecastOutcome?.triggeredSlice ?? null);
     this.clearFault();
+    this.eveHistory?.record(now, this.currentState, weather.precipMmHr);
+  }
+
+  get name(): string {
+    return this.config.name;
+  }
+
+  getStatus(): AccessoryStatus {
+    const overrideActive = this.overrideState !== null && this.overrideUntil > currentTime();
+    return {
+      name: this.config.name,
+      type: this.config.type,
+      location: this.site.key,
+      on: this.currentState,
+      faulted: this.faulted,
+      override: overrideActive ? { state: this.overrideState!, until: this.overrideUntil } : null,
+      hysteresis: {
+        state: this.hysteresis.getState(),
+        lastFlip: this.hysteresis.getLastFlip(),
+        pendingPolls: this.hysteresis.getPendingPolls(),
+      },
+      metadata: { ...this.metadata },
+    };
+  }
+
+  setOverride(state: boolean, minutes: number): void {
+    this.overrideState = state;
+    this.overrideUntil = currentTime() + minutes * 60_000;
+    this.applyState(state);
+    this.hysteresis.reset(state);
+    this.platform.log.info('%s manually set to %s for %d minutes', this.config.name, state ? 'ON' : 'OFF', minutes);
+    this.persist();
+  }
+
+  clearOverride(): void {
+    if (this.overrideState === null) {
+      return;
+    }
+    this.overrideState = null;
+    this.overrideUntil = 0;
+    this.hysteresis.reset(this.currentState);
+    this.platform.log.info('%s manual override cleared', this.config.name);
+    this.persist();
   }
 
   markFault(): void {
@@ -118,53 +307,191 @@ export class RainAccessory {
       this.platform.log.warn('%s marking fault state', this.config.name);
       this.faulted = true;
     }
-    this.switchService.updateCharacteristic(this.platform.Characteristic.StatusFault, this.platform.Characteristic.StatusFault.GENERAL_FAULT);
+    if (!this.detached) {
+      this.service.updateCharacteristic(this.platform.Characteristic.StatusFault, this.platform.Characteristic.StatusFault.GENERAL_FAULT);
+    }
   }
 
-  private async evaluateForecast(target: 'rain' | 'snow'): Promise<ForecastResult> {
-    const lookahead = this.config.lookaheadMinutes ?? DEFAULT_LOOKAHEAD_MINUTES;
-    const popThreshold = this.config.popThreshold ?? DEFAULT_POP_THRESHOLD;
-    const intensityThreshold = this.config.intensityThresholdMmPerHr ?? DEFAULT_INTENSITY_THRESHOLD;
-    const slices = await this.platform.getForecast(lookahead);
-    let triggeredSlice: WeatherForecastSlice | null = null;
-    let shouldActivate = false;
-    for (const slice of slices) {
-      if (slice.minutesFromNow < 0 || slice.minutesFromNow > lookahead) {
-        continue;
+  private restoreState(): void {
+    const saved = this.accessory.context.state as Partial<PersistedAccessoryState> | undefined;
+    if (!saved || typeof saved.on !== 'boolean') {
+      return;
+    }
+    this.publishedState = saved.on;
+    if (this.detached) {
+      return;
+    }
+    this.currentState = saved.on;
+    this.hysteresis.restore(saved.on, saved.lastFlip ?? 0);
+    if (typeof saved.delayUntil === 'number') {
+      this.delayUntil = saved.delayUntil;
+    }
+    if (saved.metadata) {
+      this.metadata = { ...this.metadata, ...saved.metadata };
+    }
+    if (typeof saved.overrideState === 'boolean' && (saved.overrideUntil ?? 0) > currentTime()) {
+      this.overrideState = saved.overrideState;
+      this.overrideUntil = saved.overrideUntil ?? 0;
+      this.platform.debug('%s restored manual override until %s', this.config.name, new Date(this.overrideUntil).toISOString());
+    }
+    this.publishState(this.currentState);
+    this.platform.debug('%s restored state %s', this.config.name, this.currentState ? 'ON' : 'OFF');
+  }
+
+  private evaluateIrrigation(weather: WeatherNowcast, slices: WeatherForecastSlice[], now: number): boolean {
+    const { pastMm, forecastMm, pastTriggered, forecastTriggered } = measureIrrigationRain(
+      this.config,
+      slices,
+      now,
+      (windowHours) => this.site.getRainfallTotal(windowHours, now),
+    );
+    this.metadata.rainTotalMm = pastMm;
+
+    const delayActive = now < this.delayUntil;
+    // Past rainfall only (re)starts the delay when it first crosses the threshold or while it is
+    // still raining, so the delay runs from the last rain rather than from the end of the window.
+    if (forecastTriggered || (pastTriggered && (!delayActive || weather.precipMmHr > 0))) {
+      const nextDelayUntil = now + irrigationDelayHours(this.config) * 3_600_000;
+      if (nextDelayUntil > this.delayUntil) {
+        this.platform.debug(
+          '%s delaying irrigation until %s (past %s, forecast %s)',
+          this.config.name,
+          new Date(nextDelayUntil).toISOString(),
+          this.platform.units.depth(pastMm),
+          this.platform.units.depth(forecastMm),
+        );
+        this.delayUntil = nextDelayUntil;
       }
-      const isMatch = target === 'rain'
-        ? slice.type === 'rain'
-        : slice.type === 'snow';
-      if (!isMatch) {
-        continue;
+    }
+    return now < this.delayUntil;
+  }
+
+  private updateCountdown(weather: WeatherNowcast, slices: WeatherForecastSlice[], now: number): void {
+    const threshold = this.config.thresholdMmPerHr ?? DEFAULT_RAIN_THRESHOLD;
+    const types = this.config.precipTypes;
+    const isWet = (type: WeatherNowcast['type'], precipMmHr: number): boolean => {
+      return type !== 'none' && (!types || types.includes(type)) && precipMmHr >= threshold;
+    };
+    const countdown = findPrecipitationCountdown(slices, isWet(weather.type, weather.precipMmHr), (slice) => isWet(slice.type, slice.precipMmHr), now);
+    this.metadata.minutesUntilStart = countdown.startsInMinutes;
+    this.metadata.minutesUntilEnd = countdown.endsInMinutes;
+  }
+
+  private evaluateDryWindow(weather: WeatherNowcast, slices: WeatherForecastSlice[]): boolean {
+    const { drySpellMinutes, isDry } = measureDrySpell(this.config, weather, slices);
+    this.metadata.drySpellMinutes = drySpellMinutes;
+    return isDry;
+  }
+
+  private compileRule(): CompiledRule | null {
+    const source = this.config.rule?.trim() ?? '';
+    if (!source) {
+      this.platform.log.error('%s is a custom accessory but has no rule', this.config.name);
+      return null;
+    }
+    try {
+      return compileRule(source);
+    } catch (error) {
+      if (error instanceof RuleSyntaxError) {
+        this.platform.log.error('%s has an invalid rule: %s', this.config.name, describeRuleError(source, error));
+      } else {
+        this.platform.log.error('%s has an invalid rule: %s', this.config.name, (error as Error).message);
       }
-      const pop = slice.pop ?? 0;
-      if (pop < popThreshold) {
-        continue;
+      return null;
+    }
+  }
+
+  // Alerts come from a separate request, so a failure there faults only this accessory and
+  // leaves the rest of the poll and the provider chain's backoff alone.
+  private async evaluateAlerts(now: number): Promise<boolean | null> {
+    let alerts: WeatherAlert[];
+    try {
+      alerts = await this.site.getAlerts();
+    } catch (error) {
+      const message = (error as Error).message;
+      if (message !== this.lastAlertError) {
+        this.platform.log.warn('%s could not load weather alerts: %s', this.config.name, message);
+        this.lastAlertError = message;
+      }
+      return null;
+    }
+    this.lastAlertError = '';
+    const alert = selectAlert(this.config, alerts, now);
+    this.metadata.alertHeadline = alert?.headline ?? '';
+    this.metadata.alertExpires = alert?.expires;
+    return Boolean(alert);
+  }
+
+  // Returns null when the rule cannot be evaluated, so the accessory reports a fault instead of guessing.
+  private evaluateRule(weather: WeatherNowcast, forecast: WeatherForecastSlice[], now: number): boolean | null {
+    if (!this.rule) {
+      return null;
+    }
+    try {
+      const result = this.rule.evaluate({
+        now: weather,
+        forecast,
+        ts: now,
+        rainfallMm: (windowHours) => this.site.getRainfallTotal(windowHours, now),
+      });
+      this.lastRuleError = '';
+      return result;
+    } catch (error) {
+      const message = (error as Error).message;
+      if (message !== this.lastRuleError) {
+        this.platform.log.warn('%s rule could not be evaluated: %s', this.config.name, message);
+        this.lastRuleError = message;
       }
-      if (slice.precipMmHr < intensityThreshold) {
+      return null;
+    }
+  }
+
+  private removeStaleServices(serviceType: ServiceType): void {
+    for (const candidate of SERVICE_TYPES) {
+      if (candidate === serviceType) {
         continue;
       }
-      shouldActivate = true;
-      triggeredSlice = slice;
-      break;
+      const stale = this.accessory.getService(resolveServiceDefinition(this.platform, candidate).service);
+      if (stale) {
+        this.platform.log.info('Migrating %s to a %s service', this.config.name, serviceType);
+        this.accessory.removeService(stale);
+      }
+    }
+  }
+
+  private publishState(state: boolean): void {
+    if (this.detached) {
+      return;
     }
-    return { shouldActivate, triggeredSlice };
+    this.publishedState = state;
+    this.service.updateCharacteristic(this.serviceDefinition.characteristic, this.serviceDefinition.toValue(state));
   }
 
   private updateState(state: boolean, logChange: boolean): void {
     if (this.currentState === state) {
-      this.switchService.updateCharacteristic(this.platform.Characteristic.On, state);
+      this.publishState(state);
       return;
     }
-    this.currentState = state;
     if (logChange) {
-      this.platform.log.info('%s -> %s', this.config.name, state ? 'ON' : 'OFF');
+      this.platform.log.info('%s -> %s (%s)', this.config.name, state ? 'ON' : 'OFF', this.platform.units.rate(this.metadata.precipMmHr));
     }
-    this.switchService.updateCharacteristic(this.platform.Characteristic.On, state);
+    this.applyState(state);
+  }
+
+  private applyState(state: boolean): void {
+    if (state !== this.currentState) {
+      const now = currentTime();
+      this.site.recordSwitchChange(this.config.name, state, now);
+      this.eveHistory?.record(now, state, this.metadata.precipMmHr);
+    }
+    this.currentState = state;
+    this.publishState(state);
   }
 
   private publishMetadata(weather: WeatherNowcast, slice: WeatherForecastSlice | null): void {
+    if (this.detached) {
+      return;
+    }
     const lastUpdate = this.metadataCharacteristics.lastUpdate;
     if (lastUpdate) {
       lastUpdate.updateValue(new Date(this.metadata.lastUpdate).toISOString());
@@ -175,13 +502,42 @@ export class RainAccessory {
     }
     const precipIntensity = this.metadataCharacteristics.precipIntensity;
     if (precipIntensity) {
-      precipIntensity.updateValue(Number((slice?.precipMmHr ?? weather.precipMmHr).toFixed(3)));
+      precipIntensity.updateValue(Number(this.platform.units.rateValue(slice?.precipMmHr ?? weather.precipMmHr).toFixed(3)));
     }
     const probability = this.metadataCharacteristics.probability;
     if (probability) {
       const pop = slice?.pop ?? this.metadata.probability ?? null;
       probability.updateValue(pop ?? 0);
     }
+    const delayRemaining = this.metadataCharacteristics.delayRemaining;
+    if (delayRemaining) {
+      const remainingSeconds = Math.round((this.delayUntil - this.metadata.lastUpdate) / 1000);
+      delayRemaining.updateValue(Math.min(MAX_DELAY_HOURS * 3600, Math.max(0, remainingSeconds)));
+    }
+    const minutesUntilStart = this.metadataCharacteristics.minutesUntilStart;
+    if (minutesUntilStart && this.metadata.minutesUntilStart !== undefined) {
+      minutesUntilStart.updateValue(this.metadata.minutesUntilStart ?? -1);
+    }
+    const minutesUntilEnd = this.metadataCharacteristics.minutesUntilEnd;
+    if (minutesUntilEnd && this.metadata.minutesUntilEnd !== undefined) {
+      minutesUntilEnd.updateValue(this.metadata.minutesUntilEnd ?? -1);
+    }
+    const drySpell = this.metadataCharacteristics.drySpell;
+    if (drySpell && this.metadata.drySpellMinutes != null) {
+      drySpell.updateValue(this.metadata.drySpellMinutes);
+    }
+    const alertHeadline = this.metadataCharacteristics.alertHeadline;
+    if (alertHeadline) {
+      alertHeadline.updateValue((this.metadata.alertHeadline ?? '').slice(0, 256));
+    }
+    const alertExpires = this.metadataCharacteristics.alertExpires;
+    if (alertExpires) {
+      alertExpires.updateValue(this.metadata.alertExpires ? new Date(this.metadata.alertExpires).toISOString() : '');
+    }
+    const rainTotal = this.metadataCharacteristics.rainTotal;
+    if (rainTotal && this.metadata.rainTotalMm != null) {
+      rainTotal.updateValue(Number(this.platform.units.depthValue(this.metadata.rainTotalMm).toFixed(2)));
+    }
   }
 
   private ensureOptionalCharacteristic(kind: keyof CustomCharacteristicSet): void {
@@ -190,44 +546,96 @@ export class RainAccessory {
       return;
     }
     const CharacteristicClass = char.CharacteristicClass;
-    if (!this.switchService.testCharacteristic(CharacteristicClass as unknown as typeof this.platform.Characteristic)) {
-      this.switchService.addCharacteristic(CharacteristicClass as unknown as typeof this.platform.Characteristic);
+    if (!this.service.testCharacteristic(CharacteristicClass as unknown as typeof this.platform.Characteristic)) {
+      this.service.addCharacteristic(CharacteristicClass as unknown as typeof this.platform.Characteristic);
     }
-    this.metadataCharacteristics[kind] = this.switchService.getCharacteristic(CharacteristicClass as unknown as typeof this.platform.Characteristic);
+    this.metadataCharacteristics[kind] = this.service.getCharacteristic(CharacteristicClass as unknown as typeof this.platform.Characteristic);
   }
 
   private clearFault(): void {
+    if (this.detached) {
+      this.faulted = false;
+      return;
+    }
     if (this.faulted) {
       this.faulted = false;
-      this.switchService.updateCharacteristic(this.platform.Characteristic.StatusFault, this.platform.Characteristic.StatusFault.NO_FAULT);
+      this.service.updateCharacteristic(this.platform.Characteristic.StatusFault, this.platform.Characteristic.StatusFault.NO_FAULT);
     } else {
-      this.switchService.updateCharacteristic(this.platform.Characteristic.StatusFault, this.platform.Characteristic.StatusFault.NO_FAULT);
+      this.service.updateCharacteristic(this.platform.Characteristic.StatusFault, this.platform.Characteristic.StatusFault.NO_FAULT);
     }
   }
 
   private handleSetOn(value: unknown): void {
     const desired = value === true || value === 1;
-    this.currentState = desired;
-    this.switchService.updateCharacteristic(this.platform.Characteristic.On, desired);
+    if (this.detached) {
+      this.platform.log.warn('%s is replaying; ignoring the change from HomeKit', this.config.name);
+      return;
+    }
     if (this.overrideMinutes && this.overrideMinutes > 0) {
-      this.overrideState = desired;
-      this.overrideUntil = Date.now() + this.overrideMinutes * 60_000;
-      this.platform.log.info('%s manually set to %s for %d minutes', this.config.name, desired ? 'ON' : 'OFF', this.overrideMinutes);
-      this.hysteresis.reset(desired);
-    } else {
-      this.hysteresis.reset(desired);
+      this.setOverride(desired, this.overrideMinutes);
+      return;
     }
+    this.applyState(desired);
+    this.hysteresis.reset(desired);
+    this.persist();
+  }
+  private persist(): void {
+    if (this.detached) {
+      return;
+    }
+    this.saveState();
+    this.platform.persistAccessories([this.accessory]);
   }
-}
 
-const DEFAULT_RAIN_THRESHOLD = 0.05;
-const DEFAULT_SNOW_THRESHOLD = 0.05;
-const DEFAULT_LOOKAHEAD_MINUTES = 60;
-const DEFAULT_POP_THRESHOLD = 40;
-const DEFAULT_INTENSITY_THRESHOLD = 0.2;
+}
 
-const isRain = (weather: WeatherNowcast): boolean => {
-  return weather.type === 'rain' || weather.type === 'sleet';
+const SERVICE_TYPES: ServiceType[] = ['switch', 'contact', 'occupancy', 'leak', 'motion'];
+
+const resolveServiceDefinition = (platform: RainSwitchPlatform, serviceType: ServiceType): ServiceDefinition => {
+  const { Service, Characteristic } = platform;
+  switch (serviceType) {
+    case 'contact':
+      return {
+        service: Service.ContactSensor,
+        characteristic: Characteristic.ContactSensorState,
+        writable: false,
+        toValue: (state) => state
+          ? Characteristic.ContactSensorState.CONTACT_NOT_DETECTED
+          : Characteristic.ContactSensorState.CONTACT_DETECTED,
+      };
+    case 'occupancy':
+      return {
+        service: Service.OccupancySensor,
+        characteristic: Characteristic.OccupancyDetected,
+        writable: false,
+        toValue: (state) => state
+          ? Characteristic.OccupancyDetected.OCCUPANCY_DETECTED
+          : Characteristic.OccupancyDetected.OCCUPANCY_NOT_DETECTED,
+      };
+    case 'leak':
+      return {
+        service: Service.LeakSensor,
+        characteristic: Characteristic.LeakDetected,
+        writable: false,
+        toValue: (state) => state
+          ? Characteristic.LeakDetected.LEAK_DETECTED
+          : Characteristic.LeakDetected.LEAK_NOT_DETECTED,
+      };
+    case 'motion':
+      return {
+        service: Service.MotionSensor,
+        characteristic: Characteristic.MotionDetected,
+        writable: false,
+        toValue: (state) => state,
+      };
+    default:
+      return {
+        service: Service.Switch,
+        characteristic: Characteristic.On,
+        writable: true,
+        toValue: (state) => state,
+      };
+  }
 };
 
 type CharacteristicConstructor = new (...args: unknown[]) => Characteristic;
@@ -241,17 +649,33 @@ interface CustomCharacteristicSet {
   providerName?: CustomCharacteristic;
   precipIntensity?: CustomCharacteristic;
   probability?: CustomCharacteristic;
+  rainTotal?: CustomCharacteristic;
+  delayRemaining?: CustomCharacteristic;
+  alertHeadline?: CustomCharacteristic;
+  alertExpires?: CustomCharacteristic;
+  drySpell?: CustomCharacteristic;
+  minutesUntilStart?: CustomCharacteristic;
+  minutesUntilEnd?: CustomCharacteristic;
 }
 
 const ensureCustomCharacteristics = (platform: RainSwitchPlatform): CustomCharacteristicSet => {
-  const { api } = platform;
+  const { api, units } = platform;
   if (!customCharacteristicRegistry) {
     const hap = api.hap;
+    // Imperial values are about 25 times smaller, so they need a finer step to stay meaningful.
+    const precisionStep = units.system === 'imperial' ? 0.001 : 0.01;
     const uuid = api.hap.uuid;
     const LastUpdateUUID = uuid.generate('RainSwitch:lastUpdate');
     const ProviderUUID = uuid.generate('RainSwitch:provider');
     const IntensityUUID = uuid.generate('RainSwitch:precipIntensity');
     const ProbabilityUUID = uuid.generate('RainSwitch:probability');
+    const RainTotalUUID = uuid.generate('RainSwitch:rainTotal');
+    const DelayRemainingUUID = uuid.generate('RainSwitch:delayRemaining');
+    const AlertHeadlineUUID = uuid.generate('RainSwitch:alertHeadline');
+    const AlertExpiresUUID = uuid.generate('RainSwitch:alertExpires');
+    const DrySpellUUID = uuid.generate('RainSwitch:drySpell');
+    const MinutesUntilStartUUID = uuid.generate('RainSwitch:minutesUntilStart');
+    const MinutesUntilEndUUID = uuid.generate('RainSwitch:minutesUntilEnd');
 
     class LastUpdateCharacteristic extends hap.Characteristic {
       constructor() {
@@ -279,9 +703,9 @@ const ensureCustomCharacteristics = (platform: RainSwitchPlatform): CustomCharac
           format: hap.Formats.FLOAT,
           perms: [hap.Perms.READ, hap.Perms.NOTIFY],
           minValue: 0,
-          maxValue: 500,
-          minStep: 0.01,
-          unit: 'mm/h',
+          maxValue: units.rateValue(500),
+          minStep: precisionStep,
+          unit: units.rateUnit,
         });
       }
     }
@@ -299,11 +723,101 @@ const ensureCustomCharacteristics = (platform: RainSwitchPlatform): CustomCharac
       }
     }
 
+    class RainTotalCharacteristic extends hap.Characteristic {
+      constructor() {
+        super('Rain Total', RainTotalUUID, {
+          format: hap.Formats.FLOAT,
+          perms: [hap.Perms.READ, hap.Perms.NOTIFY],
+          minValue: 0,
+          maxValue: units.depthValue(10000),
+          minStep: precisionStep,
+          unit: units.depthUnit,
+        });
+      }
+    }
+
+    class DelayRemainingCharacteristic extends hap.Characteristic {
+      constructor() {
+        super('Delay Remaining', DelayRemainingUUID, {
+          format: hap.Formats.FLOAT,
+          perms: [hap.Perms.READ, hap.Perms.NOTIFY],
+          minValue: 0,
+          maxValue: MAX_DELAY_HOURS * 3600,
+          minStep: 1,
+          unit: 'seconds',
+        });
+      }
+    }
+
+    class AlertHeadlineCharacteristic extends hap.Characteristic {
+      constructor() {
+        super('Alert Headline', AlertHeadlineUUID, {
+          format: hap.Formats.STRING,
+          perms: [hap.Perms.READ, hap.Perms.NOTIFY],
+          maxLen: 256,
+        });
+      }
+    }
+
+    class AlertExpiresCharacteristic extends hap.Characteristic {
+      constructor() {
+        super('Alert Expires', AlertExpiresUUID, {
+          format: hap.Formats.STRING,
+          perms: [hap.Perms.READ, hap.Perms.NOTIFY],
+          maxLen: 32,
+        });
+      }
+    }
+
+    class DrySpellCharacteristic extends hap.Characteristic {
+      constructor() {
+        super('Dry Spell Minutes', DrySpellUUID, {
+          format: hap.Formats.FLOAT,
+          perms: [hap.Perms.READ, hap.Perms.NOTIFY],
+          minValue: 0,
+          maxValue: 7 * 24 * 60,
+          minStep: 1,
+        });
+      }
+    }
+
+    // -1 means the change is not expected within the forecast horizon.
+    class MinutesUntilStartCharacteristic extends hap.Characteristic {
+      constructor() {
+        super('Minutes Until Precipitation Starts', MinutesUntilStartUUID, {
+          format: hap.Formats.FLOAT,
+          perms: [hap.Perms.READ, hap.Perms.NOTIFY],
+          minValue: -1,
+          maxValue: 7 * 24 * 60,
+          minStep: 1,
+        });
+      }
+    }
+
+    class MinutesUntilEndCharacteristic extends hap.Characteristic {
+      constructor() {
+        super('Minutes Until Precipitation Ends', MinutesUntilEndUUID, {
+          format: hap.Formats.FLOAT,
+          perms: [hap.Perms.READ, hap.Perms.NOTIFY],
+          minValue: -1,
+          maxValue: 7 * 24 * 60,
+          minStep: 1,
+        });
+      }
+    }
+
     customCharacteristicRegistry = {
       lastUpdate: { CharacteristicClass: LastUpdateCharacteristic },
       providerName: { CharacteristicClass: ProviderCharacteristic },
       precipIntensity: { CharacteristicClass: IntensityCharacteristic },
       probability: { CharacteristicClass: ProbabilityCharacteristic },
+      rainTotal: { CharacteristicClass: RainTotalCharacteristic },
+      delayRemaining: { CharacteristicClass: DelayRemainingCharacteristic },
+      alertHeadline: { CharacteristicClass: AlertHeadlineCharacteristic },
+      alertExpires: { CharacteristicClass: AlertExpiresCharacteristic },
+      drySpell: { CharacteristicClass: DrySpellCharacteristic },
+      minutesUntilStart: { CharacteristicClass: MinutesUntilStartCharacteristic },
+      minutesUntilEnd: { CharacteristicClass: MinutesUntilEndCharacteristic },
     };
   }
   return customCharacteristicRegistry;
@@ -24,6 +24,19 @@ declare module 'homebridge' {
       readonly NO_FAULT: number;
       readonly GENERAL_FAULT: number;
     };
+    readonly ContactSensorState: Characteristic & {
+      readonly CONTACT_DETECTED: number;
+      readonly CONTACT_NOT_DETECTED: number;
+    };
+    readonly OccupancyDetected: Characteristic & {
+      readonly OCCUPANCY_NOT_DETECTED: number;
+      readonly OCCUPANCY_DETECTED: number;
+    };
+    readonly LeakDetected: Characteristic & {
+      readonly LEAK_NOT_DETECTED: number;
+      readonly LEAK_DETECTED: number;
+    };
+    readonly MotionDetected: Characteristic;
   }
 
   export interface Service {
@@ -38,6 +51,10 @@ declare module 'homebridge' {
 
   export interface ServiceNamespace {
     readonly Switch: ServiceConstructor;
+    readonly ContactSensor: ServiceConstructor;
+    readonly OccupancySensor: ServiceConstructor;
+    readonly LeakSensor: ServiceConstructor;
+    readonly MotionSensor: ServiceConstructor;
     [key: string]: ServiceConstructor;
   }
 
@@ -62,7 +79,8 @@ declare module 'homebridge' {
     displayName: string;
     context: Record<string, unknown>;
     getService(service: ServiceConstructor): Service | undefined;
-    addService(service: ServiceConstructor, name?: string): Service;
+    addService(service: ServiceConstructor | Service, name?: string): Service;
+    removeService(service: Service): void;
   }
 
   export type PlatformConfig = Record<string, unknown>;
@@ -76,6 +94,7 @@ declare module 'homebridge' {
     platformAccessory: new (name: string, uuid: string) => PlatformAccessory;
     registerPlatformAccessories(pluginName: string, platformName: string, accessories: PlatformAccessory[]): void;
     unregisterPlatformAccessories(pluginName: string, platformName: string, accessories: PlatformAccessory[]): void;
+    updatePlatformAccessories(accessories: PlatformAccessory[]): void;
     registerPlatform(pluginName: string, platformName: string, constructor: new (...args: unknown[]) => DynamicPlatformPlugin): void;
     on(event: string, callback: () => void): void;
     user: {
@@ -84,22 +103,6 @@ declare module 'homebridge' {
   }
 }
 
-declare module 'undici' {
-  export interface RequestOptions {
-    method?: string;
-    headers?: Record<string, string>;
-    bodyTimeout?: number;
-    headersTimeout?: number;
-  }
-
-  export interface RequestResult {
-    statusCode: number;
-    body: { text(): Promise<string> };
-  }
-
-  export function request(url: string, options?: RequestOptions): Promise<RequestResult>;
-}
-
 declare module 'jose' {
   export class SignJWT {
     constructor(payload: unknown);
@@ -117,6 +120,27 @@ declare module 'fs/promises' {
   export function readFile(path: string, options?: { encoding?: string } | string): Promise<string>;
   export function writeFile(path: string, data: string, options?: { encoding?: string } | string): Promise<void>;
   export function mkdir(path: string, options?: { recursive?: boolean }): Promise<void>;
+  export function appendFile(path: string, data: string, options?: { encoding?: string } | string): Promise<void>;
+  export function readdir(path: string): Promise<string[]>;
+  export function unlink(path: string): Promise<void>;
+  export function rename(oldPath: string, newPath: string): Promise<void>;
+}
+
+declare module '@homebridge/plugin-ui-utils' {
+  export class RequestError extends Error {
+    constructor(message: string, requestError?: unknown);
+  }
+
+  export class HomebridgePluginUiServer {
+    readonly homebridgeStoragePath?: string;
+    readonly homebridgeConfigPath?: string;
+    onRequest(path: string, handler: (payload: unknown) => unknown): void;
+    ready(): void;
+  }
+}
+
+declare module 'js-yaml' {
+  export function load(input: string): unknown;
 }
 
 declare module 'fs' {
@@ -130,6 +154,62 @@ declare module 'os' {
 declare module 'path' {
   export function join(...segments: string[]): string;
   export function dirname(path: string): string;
-  const path: { join: typeof join; dirname: typeof dirname };
+  export function isAbsolute(path: string): boolean;
+  const path: { join: typeof join; dirname: typeof dirname; isAbsolute: typeof isAbsolute };
   export default path;
 }
+
+declare module 'http' {
+  export interface IncomingMessage {
+    method?: string;
+    url?: string;
+    headers: Record<string, string | string[] | undefined>;
+    on(event: 'data', listener: (chunk: Uint8Array) => void): this;
+    on(event: 'end' | 'close', listener: () => void): this;
+    on(event: 'error', listener: (error: Error) => void): this;
+    destroy(error?: Error): this;
+  }
+
+  export interface ServerResponse {
+    statusCode: number;
+    setHeader(name: string, value: string | number): this;
+    end(data?: string): this;
+  }
+
+  export interface Server {
+    listen(port: number, host: string, callback?: () => void): this;
+    close(callback?: (error?: Error) => void): this;
+    on(event: 'error', listener: (error: Error) => void): this;
+  }
+
+  export function createServer(handler: (req: IncomingMessage, res: ServerResponse) => void): Server;
+}
+
+declare module 'crypto' {
+  export function timingSafeEqual(a: Uint8Array, b: Uint8Array): boolean;
+}
+
+declare module 'fakegato-history' {
+  import type { API, Logger, PlatformAccessory, Service, ServiceConstructor } from 'homebridge';
+
+  export interface FakeGatoHistoryOptions {
+    storage?: 'fs' | 'googleDrive';
+    path?: string;
+    filename?: string;
+    disableTimer?: boolean;
+    size?: number;
+    log?: Logger;
+  }
+
+  export interface FakeGatoHistoryService extends Service {
+    addEntry(entry: { time: number } & Record<string, number>): void;
+  }
+
+  export type FakeGatoHistoryServiceConstructor = (new (
+    type: string,
+    accessory: PlatformAccessory,
+    options?: FakeGatoHistoryOptions,
+  ) => FakeGatoHistoryService) & ServiceConstructor;
+
+  export default function fakegato(api: API): FakeGatoHistoryServiceConstructor;
+}
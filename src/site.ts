@@ -0,0 +1,412 @@
+import type { RainAccessory } from './rainAccessory';
+import type { RainSwitchPlatform } from './platform';
+import type {
+  LocationConfig,
+  ProviderConfig,
+  RainAccessoryConfig,
+  WeatherAlert,
+  WeatherForecastSlice,
+  WeatherNowcast,
+  WeatherSnapshot,
+} from './types';
+import { resolveLocation, type ResolvedLocation } from './util/geo';
+import { makeProviderChain, type ProviderChain, type ProviderChainHealth } from './providers/provider';
+import { makeRainfallLog, DEFAULT_ACCUMULATION_WINDOW_HOURS, type RainfallLog } from './util/rainfall';
+import { ruleWindows } from './util/rule';
+import { makeHistoryStore, type HistoryStore, type SwitchHistoryEntry, type WeatherHistoryEntry } from './util/history';
+import { currentTime, setClock } from './util/clock';
+import { DEFAULT_LOOKAHEAD_MINUTES, FORECAST_HORIZON_MINUTES, forecastMinutesFor } from './util/decision';
+import { makePollScheduler, type AdaptivePollingOptions, type PollPace, type PollScheduler } from './util/polling';
+import { loadReplaySource, makeRecordingRequest, type HttpRequest, type ProviderId, type ReplaySource } from './util/recording';
+
+export const DEFAULT_LOCATION_KEY = 'default';
+const DEFAULT_REPLAY_SPEED = 60;
+
+export interface SiteOptions {
+  intervalMs: number;
+  adaptivePolling: AdaptivePollingOptions | null;
+  jitterRatio: number;
+  timeoutMs: number;
+  cacheTtlSeconds: number;
+  retryBackoffSeconds: number[];
+  historyRetentionMs: number | null;
+}
+
+export class WeatherSite {
+  private readonly accessories: RainAccessory[] = [];
+  private providerChain: ProviderChain | null = null;
+  private rainfallLog: RainfallLog | null = null;
+  private weatherHistory: HistoryStore<WeatherHistoryEntry> | null = null;
+  private switchHistory: HistoryStore<SwitchHistoryEntry> | null = null;
+  private location: ResolvedLocation | null = null;
+  private pollingTimer: ReturnType<typeof setTimeout> | null = null;
+  private pollInFlight: Promise<WeatherSnapshot> | null = null;
+  private lastWeather: WeatherNowcast | null = null;
+  private replay: ReplaySource | null = null;
+  private replayTime = 0;
+  private stopped = false;
+  private readonly scheduler: PollScheduler;
+  private pace: PollPace | null = null;
+  private maxLookaheadMinutes = DEFAULT_LOOKAHEAD_MINUTES;
+  private horizonMinutes = FORECAST_HORIZON_MINUTES;
+
+  constructor(
+    private readonly platform: RainSwitchPlatform,
+    public readonly key: string,
+    private readonly locationConfig: LocationConfig | undefined,
+    private readonly providerConfig: ProviderConfig | undefined,
+    private readonly options: SiteOptions,
+  ) {
+    this.scheduler = makePollScheduler({
+      intervalMs: options.intervalMs,
+      adaptive: options.adaptivePolling,
+      jitterRatio: options.jitterRatio,
+    });
+  }
+
+  async initialise(accessoryConfigs: RainAccessoryConfig[]): Promise<boolean> {
+    try {
+      this.location = await resolveLocation(
+        this.platform.log,
+        this.locationConfig,
+        this.platform.api.user.storagePath(),
+        this.options.timeoutMs,
+        this.key === DEFAULT_LOCATION_KEY ? undefined : this.key,
+        this.platform.http,
+      );
+      if (!this.location) {
+        this.platform.log.warn('[%s] Unable to determine location; provider selection may fail', this.key);
+      }
+      const requestFor = await this.setupRecording();
+      const http = (provider: ProviderId): HttpRequest => requestFor?.(provider) ?? this.platform.http;
+      // Replays and scenarios make no real requests, so they neither count against nor obey budgets.
+      const quota = this.replay || this.isSimulated() ? undefined : this.platform.quota;
+      this.providerChain = makeProviderChain(this.platform.log, this.providerConfig, this.location, {
+        timeoutMs: this.options.timeoutMs,
+        cacheTtlSeconds: this.options.cacheTtlSeconds,
+        retryBackoffSeconds: this.options.retryBackoffSeconds,
+        onProviderCall: (provider, durationMs, outcome) => {
+          this.platform.metrics.recordProviderCall(this.key, provider, durationMs, outcome);
+        },
+        requestFor: quota ? (provider) => quota.wrap(provider, http(provider)) : http,
+        storagePath: this.platform.api.user.storagePath(),
+        quota,
+      });
+      this.platform.log.info('[%s] Using providers: %s', this.key, this.providerChain.describe());
+      await this.setupRainfallLog(accessoryConfigs);
+      this.maxLookaheadMinutes = Math.max(
+        DEFAULT_LOOKAHEAD_MINUTES,
+        ...accessoryConfigs.map((accessory) => accessory.lookaheadMinutes ?? DEFAULT_LOOKAHEAD_MINUTES),
+      );
+      this.horizonMinutes = Math.max(FORECAST_HORIZON_MINUTES, ...accessoryConfigs.map(forecastMinutesFor));
+      if (!this.replay && !this.isSimulated()) {
+        await this.setupHistory(accessoryConfigs.length);
+      }
+      return true;
+    } catch (error) {
+      this.platform.log.error('[%s] Failed to initialise providers: %s', this.key, (error as Error).message);
+      this.releaseClock();
+      return false;
+    }
+  }
+
+  addAccessory(accessory: RainAccessory): void {
+    this.accessories.push(accessory);
+  }
+
+  isReplaying(): boolean {
+    return this.providerConfig?.mode === 'replay';
+  }
+
+  isSimulated(): boolean {
+    return this.providerConfig?.mode === 'simulated';
+  }
+
+  getAccessories(): RainAccessory[] {
+    return [...this.accessories];
+  }
+
+  describe(): string {
+    return this.providerChain?.describe() ?? '';
+  }
+
+  getHealth(): ProviderChainHealth | null {
+    return this.providerChain?.getHealth() ?? null;
+  }
+
+  getLocation(): ResolvedLocation | null {
+    return this.location;
+  }
+
+  getLastWeather(): WeatherNowcast | null {
+    return this.lastWeather;
+  }
+
+  async getForecast(lookaheadMinutes: number): Promise<WeatherForecastSlice[]> {
+    if (!this.providerChain) {
+      throw new Error('Provider chain not ready');
+    }
+    return this.providerChain.getForecast(lookaheadMinutes);
+  }
+
+  async getAlerts(): Promise<WeatherAlert[]> {
+    if (!this.providerChain) {
+      throw new Error('Provider chain not ready');
+    }
+    return this.providerChain.getAlerts();
+  }
+
+  getWeatherHistory(sinceTs?: number): WeatherHistoryEntry[] {
+    return this.weatherHistory?.entries(sinceTs) ?? [];
+  }
+
+  getSwitchHistory(sinceTs?: number): SwitchHistoryEntry[] {
+    return this.switchHistory?.entries(sinceTs) ?? [];
+  }
+
+  recordSwitchChange(accessory: string, on: boolean, ts: number): void {
+    void this.switchHistory?.append({ ts, accessory, on });
+  }
+
+  getRainfallTotal(windowHours: number, now: number): number {
+    return this.rainfallLog?.totalMm(windowHours * 3_600_000, now) ?? 0;
+  }
+
+  startPolling(): void {
+    if (!this.providerChain || this.stopped) {
+      return;
+    }
+    if (this.pollingTimer) {
+      clearTimeout(this.pollingTimer);
+      this.pollingTimer = null;
+    }
+
+    this.platform.debug(
+      '[%s] Starting %s polling loop every %d seconds',
+      this.key,
+      this.scheduler.adaptive ? 'adaptive' : 'fixed',
+      this.options.intervalMs / 1000,
+    );
+
+    const tick = async (): Promise<void> => {
+      let wet = false;
+      try {
+        const snapshot = await this.poll();
+        wet = this.scheduler.adaptive && this.isWet(snapshot);
+      } catch (error) {
+        this.platform.log.warn('[%s] Weather polling failed: %s', this.key, (error as Error).message);
+        this.providerChain?.markFailure();
+        for (const accessory of this.accessories) {
+          accessory.markFault();
+        }
+      } finally {
+        const step = this.scheduler.next(wet, currentTime());
+        if (step.pace !== this.pace) {
+          if (this.pace !== null) {
+            this.platform.debug('[%s] Switching to %s polling every %d seconds', this.key, step.pace, step.baseMs / 1000);
+          }
+          this.pace = step.pace;
+        }
+        if (this.providerChain && !this.stopped && this.advanceReplay(step.baseMs)) {
+          this.pollingTimer = setTimeout(() => {
+            this.pollingTimer = null;
+            void tick();
+          }, this.replay ? step.baseMs / (this.providerConfig?.replay?.speed ?? DEFAULT_REPLAY_SPEED) : step.delayMs);
+        } else {
+          this.pollingTimer = null;
+        }
+      }
+    };
+
+    void tick();
+  }
+
+  async refresh(): Promise<WeatherNowcast> {
+    if (!this.providerChain) {
+      throw new Error('Provider chain not ready');
+    }
+    return (await this.poll(true)).nowcast;
+  }
+
+  stop(): void {
+    this.stopped = true;
+    if (this.pollingTimer) {
+      clearTimeout(this.pollingTimer);
+      this.pollingTimer = null;
+    }
+    this.flushState();
+    this.releaseClock();
+  }
+
+  markFault(): void {
+    for (const accessory of this.accessories) {
+      accessory.markFault();
+    }
+  }
+
+  // Only one poll runs per site at a time; a refresh or timer tick that arrives meanwhile shares
+  // its result instead of evaluating the accessories a second time.
+  private poll(force = false): Promise<WeatherSnapshot> {
+    if (!this.pollInFlight) {
+      this.pollInFlight = this.pollOnce(force).finally(() => {
+        this.pollInFlight = null;
+      });
+    }
+    return this.pollInFlight;
+  }
+
+  // One snapshot per poll, long enough for every accessory, so they all judge the same weather.
+  private async pollOnce(force: boolean): Promise<WeatherSnapshot> {
+    const snapshot = await this.providerChain!.getSnapshot(this.horizonMinutes, force);
+    const weather = snapshot.nowcast;
+    this.lastWeather = weather;
+    const now = currentTime();
+    await this.rainfallLog?.record(now, weather.type === 'snow' ? 0 : weather.precipMmHr);
+    await this.weatherHistory?.append({
+      ts: now,
+      provider: weather.providerName,
+      precipMmHr: weather.precipMmHr,
+      pop: weather.pop,
+      type: weather.type,
+    });
+    for (const accessory of this.accessories) {
+      await accessory.evaluate(snapshot);
+    }
+    this.flushState();
+    return snapshot;
+  }
+
+  // Precipitation now or within the longest lookahead, or any accessory ON, keeps polling fast.
+  // Dry Window accessories are ON when it is dry, so they do not count.
+  private isWet({ nowcast: weather, forecast }: WeatherSnapshot): boolean {
+    const anyOn = this.accessories.some((accessory) => {
+      const status = accessory.getStatus();
+      return status.on && status.type !== 'dry-window';
+    });
+    if (anyOn) {
+      return true;
+    }
+    if (weather.type !== 'none' && weather.precipMmHr > 0) {
+      return true;
+    }
+    return forecast.some((slice) => {
+      return slice.minutesFromNow >= 0 && slice.minutesFromNow <= this.maxLookaheadMinutes && slice.type !== 'none' && slice.precipMmHr > 0;
+    });
+  }
+
+  // Moves the simulated clock one polling interval forward; false once the recordings run out.
+  private advanceReplay(intervalMs: number): boolean {
+    if (!this.replay) {
+      return true;
+    }
+    this.replayTime += intervalMs;
+    if (this.replayTime > this.replay.end) {
+      this.platform.log.info('[%s] Replay finished at %s', this.key, new Date(this.replay.end).toISOString());
+      this.releaseClock();
+      return false;
+    }
+    return true;
+  }
+
+  // Hands the plugin clock back to real time once a replay is over or could not start.
+  private releaseClock(): void {
+    if (this.replay) {
+      setClock(null);
+    }
+  }
+
+  private async setupRecording(): Promise<((provider: ProviderId) => HttpRequest) | undefined> {
+    const storagePath = this.platform.api.user.storagePath();
+    if (this.isReplaying()) {
+      const replayConfig = this.providerConfig?.replay ?? {};
+      this.replay = await loadReplaySource(this.platform.log, storagePath, replayConfig.source ?? this.key, {
+        from: parseReplayTime(replayConfig.from),
+        to: parseReplayTime(replayConfig.to),
+      });
+      this.replayTime = this.replay.start;
+      setClock(() => this.replayTime);
+      this.platform.log.info(
+        '[%s] Replaying %d recorded responses from %s to %s',
+        this.key,
+        this.replay.size,
+        new Date(this.replay.start).toISOString(),
+        new Date(this.replay.end).toISOString(),
+      );
+      const replay = this.replay;
+      return (provider) => replay.requestFor(provider);
+    }
+    if (this.providerConfig?.record) {
+      this.platform.log.info('[%s] Recording provider responses', this.key);
+      const retentionDays = this.providerConfig.recordRetentionDays;
+      return (provider) => makeRecordingRequest(this.platform.log, storagePath, this.key, provider, this.platform.http, retentionDays);
+    }
+    return undefined;
+  }
+
+  private flushState(): void {
+    if (this.isReplaying()) {
+      return;
+    }
+    for (const accessory of this.accessories) {
+      accessory.saveState();
+    }
+    this.platform.persistAccessories(this.accessories.map((accessory) => accessory.accessory));
+  }
+
+  private async setupRainfallLog(accessoryConfigs: RainAccessoryConfig[]): Promise<void> {
+    const windows: number[] = [];
+    for (const accessory of accessoryConfigs) {
+      if (accessory.type === 'rain-total') {
+        windows.push(accessory.accumulationWindowHours ?? DEFAULT_ACCUMULATION_WINDOW_HOURS);
+      } else if (accessory.type === 'irrigation-skip') {
+        windows.push(accessory.pastWindowHours ?? DEFAULT_ACCUMULATION_WINDOW_HOURS);
+      } else if (accessory.type === 'custom') {
+        windows.push(ruleWindows(accessory.rule).rainfallHours);
+      }
+    }
+    if (!windows.some((hours) => hours > 0)) {
+      return;
+    }
+    const retentionMs = Math.max(...windows) * 3_600_000;
+    const storeName = this.key === DEFAULT_LOCATION_KEY ? 'rainfall.json' : `rainfall-${this.key}.json`;
+    // Replays and scenarios start from an empty log so their samples never mix with the real ones.
+    const sandbox = this.replay ? 'replay' : this.isSimulated() ? 'simulated' : null;
+    this.rainfallLog = makeRainfallLog(
+      this.platform.log,
+      this.platform.api.user.storagePath(),
+      retentionMs,
+      sandbox ? `${sandbox}-${storeName}` : storeName,
+    );
+    if (!sandbox) {
+      await this.rainfallLog.load();
+    }
+  }
+
+  private async setupHistory(accessoryCount: number): Promise<void> {
+    const retentionMs = this.options.historyRetentionMs;
+    if (retentionMs == null) {
+      return;
+    }
+    const suffix = this.key === DEFAULT_LOCATION_KEY ? '' : `-${this.key}`;
+    const storagePath = this.platform.api.user.storagePath();
+    // Room for one poll at the fastest pace over the whole retention, doubled for manual refreshes.
+    // Each accessory can change at most once per poll.
+    const fastestMs = Math.min(this.options.intervalMs, this.options.adaptivePolling?.fastMs ?? Infinity) * (1 - this.options.jitterRatio);
+    const polls = Math.ceil(retentionMs / fastestMs) * 2;
+    this.weatherHistory = makeHistoryStore(this.platform.log, storagePath, `weather-history${suffix}`, retentionMs, polls);
+    this.switchHistory = makeHistoryStore(this.platform.log, storagePath, `switch-history${suffix}`, retentionMs, polls * Math.max(1, accessoryCount));
+    await this.weatherHistory.load();
+    await this.switchHistory.load();
+  }
+}
+
+const parseReplayTime = (value: string | undefined): number | undefined => {
+  if (!value) {
+    return undefined;
+  }
+  const parsed = Date.parse(value);
+  if (!Number.isFinite(parsed)) {
+    throw new Error(`Invalid replay time "${value}"`);
+  }
+  return parsed;
+};
@@ -1,6 +1,15 @@
 import type { PlatformConfig } from 'homebridge';
 
-export type PrecipType = 'rain' | 'snow' | 'sleet' | 'none';
+export type PrecipType =
+  | 'none'
+  | 'drizzle'
+  | 'rain'
+  | 'freezing-rain'
+  | 'ice-pellets'
+  | 'mixed'
+  | 'snow'
+  | 'hail'
+  | 'thunderstorm';
 
 export interface LocationConfig {
   lat?: number;
@@ -9,18 +18,24 @@ export interface LocationConfig {
   mode?: 'explicit' | 'auto' | 'geocode';
 }
 
-export interface WeatherKitConfig {
+export interface CallBudgetConfig {
+  dailyCallLimit?: number;
+  monthlyCallLimit?: number;
+}
+
+export interface WeatherKitConfig extends CallBudgetConfig {
   teamId?: string;
   keyId?: string;
   privateKey?: string;
   serviceId?: string;
+  countryCode?: string;
 }
 
-export interface OpenWeatherMapConfig {
+export interface OpenWeatherMapConfig extends CallBudgetConfig {
   apiKey?: string;
 }
 
-export interface TomorrowConfig {
+export interface TomorrowConfig extends CallBudgetConfig {
   apiKey?: string;
 }
 
@@ -28,12 +43,39 @@ export interface NwsConfig {
   enabled?: boolean;
 }
 
+export interface OpenMeteoConfig extends CallBudgetConfig {
+  enabled?: boolean;
+}
+
+export interface SimulatedConfig {
+  scenario?: string;
+  speed?: number;
+  repeat?: boolean;
+}
+
+export interface ReplayConfig {
+  source?: string;
+  from?: string;
+  to?: string;
+  speed?: number;
+}
+
 export interface ProviderConfig {
-  mode?: 'auto' | 'weatherkit' | 'openweathermap' | 'nws' | 'tomorrow';
+  mode?: 'auto' | 'weatherkit' | 'openweathermap' | 'nws' | 'tomorrow' | 'openmeteo' | 'replay' | 'simulated';
+  record?: boolean;
+  recordRetentionDays?: number;
+  replay?: ReplayConfig;
   weatherkit?: WeatherKitConfig;
   openweathermap?: OpenWeatherMapConfig;
   tomorrow?: TomorrowConfig;
   nws?: NwsConfig;
+  openmeteo?: OpenMeteoConfig;
+  simulated?: SimulatedConfig;
+}
+
+export interface NamedLocationConfig extends LocationConfig {
+  key: string;
+  provider?: ProviderConfig;
 }
 
 export interface PollingConfig {
@@ -41,6 +83,11 @@ export interface PollingConfig {
   minOnDurationSeconds?: number;
   minOffDurationSeconds?: number;
   timeoutMs?: number;
+  adaptive?: boolean;
+  fastIntervalSeconds?: number;
+  slowIntervalSeconds?: number;
+  slowAfterDryHours?: number;
+  jitterPercent?: number;
 }
 
 export interface AdvancedConfig {
@@ -48,31 +95,96 @@ export interface AdvancedConfig {
   cacheTtlSeconds?: number;
   retryBackoffSeconds?: number[];
   overrideMinutes?: number;
+  userAgentContact?: string;
   quietHours?: {
     start?: string;
     end?: string;
   };
 }
 
-export type AccessoryType = 'rain-now' | 'rain-soon' | 'snow-mode';
+export interface HistoryConfig {
+  enabled?: boolean;
+  retentionDays?: number;
+  eve?: boolean;
+}
+
+export interface ControlApiConfig {
+  enabled?: boolean;
+  host?: string;
+  port?: number;
+  token?: string;
+}
+
+export type AccessoryType = 'rain-now' | 'rain-soon' | 'snow-mode' | 'rain-total' | 'irrigation-skip' | 'alerts' | 'dry-window' | 'custom';
+
+export type ServiceType = 'switch' | 'contact' | 'occupancy' | 'leak' | 'motion';
+
+export type Weekday = 'mon' | 'tue' | 'wed' | 'thu' | 'fri' | 'sat' | 'sun';
+
+export type ScheduleBehaviour = 'hold' | 'off' | 'on';
+
+export interface ScheduleWindowConfig {
+  days?: Weekday[];
+  start: string;
+  end: string;
+  behaviour?: ScheduleBehaviour;
+}
+
+export type UnitSystem = 'metric' | 'imperial';
+
+// A bare number is read in the platform unit system; a string may name its own unit, e.g. "0.1 in/h".
+export type UnitValue = number | string;
+
+export type RateField = 'thresholdMmPerHr' | 'offThresholdMmPerHr' | 'intensityThresholdMmPerHr';
+
+export type DepthField = 'accumulationThresholdMm' | 'pastThresholdMm' | 'forecastThresholdMm';
+
+export type AlertSeverity = 'minor' | 'moderate' | 'severe' | 'extreme' | 'unknown';
 
 export interface RainAccessoryConfig {
   type: AccessoryType;
   name: string;
+  serviceType?: ServiceType;
+  location?: string;
   thresholdMmPerHr?: number;
+  offThresholdMmPerHr?: number;
+  debouncePolls?: number;
+  minOnDurationSeconds?: number;
+  minOffDurationSeconds?: number;
   lookaheadMinutes?: number;
   popThreshold?: number;
   intensityThresholdMmPerHr?: number;
+  precipTypes?: PrecipType[];
+  accumulationWindowHours?: number;
+  accumulationThresholdMm?: number;
+  pastWindowHours?: number;
+  pastThresholdMm?: number;
+  forecastWindowHours?: number;
+  forecastThresholdMm?: number;
+  delayHours?: number;
+  alertEvents?: string[];
+  alertSeverity?: Exclude<AlertSeverity, 'unknown'>;
+  rule?: string;
+  schedule?: ScheduleWindowConfig[];
   enabled?: boolean;
 }
 
+// Accessory settings as written in config.json, before thresholds are converted to metric
+// and precipitation type names are checked.
+export type RainAccessoryConfigInput = Omit<RainAccessoryConfig, RateField | DepthField | 'precipTypes'> &
+  Partial<Record<RateField | DepthField, UnitValue>> & { precipTypes?: string[] };
+
 export interface RainSwitchPlatformConfig extends PlatformConfig {
   name: string;
+  units?: UnitSystem;
   location?: LocationConfig;
+  locations?: NamedLocationConfig[];
   provider?: ProviderConfig;
   polling?: PollingConfig;
-  accessories?: RainAccessoryConfig[];
+  accessories?: RainAccessoryConfigInput[];
   advanced?: AdvancedConfig;
+  history?: HistoryConfig;
+  controlApi?: ControlApiConfig;
 }
 
 export interface WeatherNowcast {
@@ -93,9 +205,26 @@ export interface WeatherForecastSlice {
   type: PrecipType;
 }
 
+// The nowcast and forecast one provider returned for a single poll.
+export interface WeatherSnapshot {
+  nowcast: WeatherNowcast;
+  forecast: WeatherForecastSlice[];
+  horizonMinutes: number;
+}
+
+export interface WeatherAlert {
+  id: string;
+  providerName: string;
+  event: string;
+  headline: string;
+  severity: AlertSeverity;
+  expires?: number;
+}
+
 export interface WeatherProvider {
   readonly name: string;
   isSupported(): boolean;
   getNowcast(): Promise<WeatherNowcast>;
   getForecast(lookaheadMinutes: number): Promise<WeatherForecastSlice[]>;
+  getAlerts?(): Promise<WeatherAlert[]>;
 }
@@ -0,0 +1,82 @@
+import { HomebridgePluginUiServer, RequestError } from '@homebridge/plugin-ui-utils';
+import { format } from 'util';
+import type { Logger } from 'homebridge';
+import type { RainSwitchPlatformConfig } from './types';
+import { checkConfig, checkProviders, PROVIDER_MODES, type CheckOptions } from './check';
+
+interface CheckPayload {
+  config?: RainSwitchPlatformConfig;
+  location?: string;
+  provider?: string;
+  minutes?: number;
+}
+
+// Backs the custom Homebridge UI page. Requests carry the config currently in the editor,
+// so previews reflect unsaved changes.
+class RainSwitchUiServer extends HomebridgePluginUiServer {
+  constructor() {
+    super();
+    this.onRequest('/check', (payload) => this.handleCheck(payload as CheckPayload));
+    this.onRequest('/providers', (payload) => this.handleProviders(payload as CheckPayload));
+    this.ready();
+  }
+
+  private async handleCheck(payload: CheckPayload): Promise<unknown> {
+    const { log, messages } = makeCollectingLogger();
+    const options: CheckOptions = { location: payload.location || undefined, minutes: payload.minutes };
+    if (payload.provider) {
+      options.provider = PROVIDER_MODES.find((mode) => mode === payload.provider);
+    }
+    try {
+      const locations = await checkConfig(log, this.configFrom(payload), this.storagePath(), options);
+      return { locations, messages };
+    } catch (error) {
+      throw new RequestError((error as Error).message, { messages });
+    }
+  }
+
+  private async handleProviders(payload: CheckPayload): Promise<unknown> {
+    const { log, messages } = makeCollectingLogger();
+    try {
+      const result = await checkProviders(log, this.configFrom(payload), this.storagePath(), payload.location || undefined);
+      return { ...result, messages };
+    } catch (error) {
+      throw new RequestError((error as Error).message, { messages });
+    }
+  }
+
+  private configFrom(payload: CheckPayload): RainSwitchPlatformConfig {
+    if (!payload?.config || typeof payload.config !== 'object') {
+      throw new RequestError('Request must include the plugin config');
+    }
+    return payload.config;
+  }
+
+  private storagePath(): string {
+    if (!this.homebridgeStoragePath) {
+      throw new RequestError('Homebridge storage path is not available');
+    }
+    return this.homebridgeStoragePath;
+  }
+}
+
+export const startUiServer = (): void => {
+  new RainSwitchUiServer();
+};
+
+// Warnings and errors are returned to the page instead of disappearing into the UI's log.
+const makeCollectingLogger = (): { log: Logger; messages: string[] } => {
+  const messages: string[] = [];
+  const collect = (level: string) => (message: unknown, ...params: unknown[]): void => {
+    messages.push(`${level}: ${format(message, ...params)}`);
+  };
+  return {
+    log: {
+      info: () => undefined,
+      warn: collect('warn'),
+      error: collect('error'),
+      debug: () => undefined,
+    },
+    messages,
+  };
+};
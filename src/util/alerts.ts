@@ -0,0 +1,9 @@
+import type { AlertSeverity } from '../types';
+
+const SEVERITIES: AlertSeverity[] = ['minor', 'moderate', 'severe', 'extreme'];
+
+// NWS and WeatherKit both use the CAP severity names, in varying case.
+export const parseAlertSeverity = (value: string | null | undefined): AlertSeverity => {
+  const normalized = (value ?? '').toLowerCase();
+  return SEVERITIES.find((severity) => severity === normalized) ?? 'unknown';
+};
@@ -0,0 +1,8 @@
+// Weather decisions read the time through here so replay mode can run them on a simulated clock.
+let source: () => number = () => Date.now();
+
+export const currentTime = (): number => source();
+
+export const setClock = (next: (() => number) | null): void => {
+  source = next ?? (() => Date.now());
+};
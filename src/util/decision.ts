@@ -0,0 +1,202 @@
+import type { AlertSeverity, PrecipType, RainAccessoryConfig, WeatherAlert, WeatherForecastSlice, WeatherNowcast } from '../types';
+import { forecastCoverageMinutes, normaliseTimeline, sumForecastMm } from './forecast';
+import { RAIN_TYPES, SNOW_TYPES } from './precip';
+import { DEFAULT_ACCUMULATION_WINDOW_HOURS } from './rainfall';
+import { ruleWindows } from './rule';
+
+export const DEFAULT_RAIN_THRESHOLD = 0.05;
+export const DEFAULT_SNOW_THRESHOLD = 0.05;
+export const DEFAULT_LOOKAHEAD_MINUTES = 60;
+export const DEFAULT_POP_THRESHOLD = 40;
+export const DEFAULT_INTENSITY_THRESHOLD = 0.2;
+export const DEFAULT_ACCUMULATION_THRESHOLD_MM = 5;
+export const DEFAULT_FORECAST_WINDOW_HOURS = 24;
+export const DEFAULT_PAST_THRESHOLD_MM = 5;
+export const DEFAULT_FORECAST_THRESHOLD_MM = 5;
+export const DEFAULT_DELAY_HOURS = 48;
+// The Delay Remaining characteristic tops out at one week.
+export const MAX_DELAY_HOURS = 7 * 24;
+export const FORECAST_HORIZON_MINUTES = 6 * 60;
+
+export interface ForecastResult {
+  triggeredSlice?: WeatherForecastSlice | null;
+  shouldActivate: boolean;
+}
+
+export interface DrySpellResult {
+  drySpellMinutes: number;
+  isDry: boolean;
+}
+
+export interface RainTotalResult {
+  windowHours: number;
+  totalMm: number;
+  thresholdMm: number;
+  reached: boolean;
+}
+
+export interface IrrigationRainResult {
+  pastWindowHours: number;
+  forecastWindowHours: number;
+  pastMm: number;
+  forecastMm: number;
+  pastThresholdMm: number;
+  forecastThresholdMm: number;
+  pastTriggered: boolean;
+  forecastTriggered: boolean;
+}
+
+const SEVERITY_RANK: Record<AlertSeverity, number> = {
+  unknown: 0,
+  minor: 1,
+  moderate: 2,
+  severe: 3,
+  extreme: 4,
+};
+
+// The precipitation types an accessory reacts to, falling back to the defaults for its target.
+export const precipTypesFor = (config: RainAccessoryConfig, target: 'rain' | 'snow'): PrecipType[] => {
+  if (config.precipTypes?.length) {
+    return config.precipTypes;
+  }
+  return target === 'rain' ? RAIN_TYPES : SNOW_TYPES;
+};
+
+// While the accessory is ON it stays ON down to `offThresholdMmPerHr`, so intensity hovering
+// around the ON threshold does not flip it back and forth.
+export const activeThreshold = (config: RainAccessoryConfig, fallback: number, isOn: boolean): number => {
+  const onThreshold = config.thresholdMmPerHr ?? fallback;
+  if (!isOn || config.offThresholdMmPerHr == null) {
+    return onThreshold;
+  }
+  return Math.min(config.offThresholdMmPerHr, onThreshold);
+};
+
+export const isRainingNow = (config: RainAccessoryConfig, weather: WeatherNowcast, isOn = false): boolean => {
+  return precipTypesFor(config, 'rain').includes(weather.type) && weather.precipMmHr >= activeThreshold(config, DEFAULT_RAIN_THRESHOLD, isOn);
+};
+
+export const isSnowingNow = (config: RainAccessoryConfig, weather: WeatherNowcast, isOn = false): boolean => {
+  return precipTypesFor(config, 'snow').includes(weather.type) && weather.precipMmHr >= activeThreshold(config, DEFAULT_SNOW_THRESHOLD, isOn);
+};
+
+// The first slice within the lookahead of the wanted type that clears both thresholds.
+export const matchForecast = (config: RainAccessoryConfig, slices: WeatherForecastSlice[], target: 'rain' | 'snow'): ForecastResult => {
+  const lookahead = config.lookaheadMinutes ?? DEFAULT_LOOKAHEAD_MINUTES;
+  const popThreshold = config.popThreshold ?? DEFAULT_POP_THRESHOLD;
+  const intensityThreshold = config.intensityThresholdMmPerHr ?? DEFAULT_INTENSITY_THRESHOLD;
+  const types = precipTypesFor(config, target);
+  for (const slice of slices) {
+    if (slice.minutesFromNow < 0 || slice.minutesFromNow > lookahead) {
+      continue;
+    }
+    if (!types.includes(slice.type)) {
+      continue;
+    }
+    if ((slice.pop ?? 0) < popThreshold) {
+      continue;
+    }
+    if (slice.precipMmHr < intensityThreshold) {
+      continue;
+    }
+    return { shouldActivate: true, triggeredSlice: slice };
+  }
+  return { shouldActivate: false, triggeredSlice: null };
+};
+
+export const dryWindowHorizon = (config: RainAccessoryConfig): number => {
+  return Math.max(config.lookaheadMinutes ?? DEFAULT_LOOKAHEAD_MINUTES, FORECAST_HORIZON_MINUTES);
+};
+
+// How far ahead an accessory reads the forecast. Every accessory shows a countdown over the full horizon.
+export const forecastMinutesFor = (config: RainAccessoryConfig): number => {
+  const minutes = [config.lookaheadMinutes ?? DEFAULT_LOOKAHEAD_MINUTES, FORECAST_HORIZON_MINUTES];
+  if (config.type === 'irrigation-skip') {
+    minutes.push((config.forecastWindowHours ?? DEFAULT_FORECAST_WINDOW_HOURS) * 60);
+  } else if (config.type === 'custom') {
+    minutes.push(ruleWindows(config.rule).forecastMinutes);
+  }
+  return Math.max(...minutes);
+};
+
+export const measureDrySpell = (config: RainAccessoryConfig, weather: WeatherNowcast, forecast: WeatherForecastSlice[]): DrySpellResult => {
+  const lookahead = config.lookaheadMinutes ?? DEFAULT_LOOKAHEAD_MINUTES;
+  const popLimit = config.popThreshold ?? DEFAULT_POP_THRESHOLD;
+  const intensityLimit = config.intensityThresholdMmPerHr ?? DEFAULT_INTENSITY_THRESHOLD;
+  const horizon = dryWindowHorizon(config);
+  const slices = normaliseTimeline(forecast);
+  const isWet = (precipMmHr: number, pop: number | undefined): boolean => {
+    return precipMmHr > intensityLimit || (pop ?? 0) > popLimit;
+  };
+
+  // A dry stretch is only vouched for as far as the forecast data reaches.
+  let drySpellMinutes = Math.min(horizon, forecastCoverageMinutes(slices));
+  if (isWet(weather.precipMmHr, undefined)) {
+    drySpellMinutes = 0;
+  } else {
+    const firstWet = slices.find((slice) => slice.minutesFromNow <= horizon && isWet(slice.precipMmHr, slice.pop));
+    if (firstWet) {
+      drySpellMinutes = Math.min(drySpellMinutes, Math.max(0, firstWet.minutesFromNow));
+    }
+  }
+  return { drySpellMinutes, isDry: drySpellMinutes >= lookahead };
+};
+
+// `rainfallMm` sums the measured rain over the given number of hours up to now.
+export const measureRainTotal = (config: RainAccessoryConfig, rainfallMm: (windowHours: number) => number): RainTotalResult => {
+  const windowHours = config.accumulationWindowHours ?? DEFAULT_ACCUMULATION_WINDOW_HOURS;
+  const thresholdMm = config.accumulationThresholdMm ?? DEFAULT_ACCUMULATION_THRESHOLD_MM;
+  const totalMm = rainfallMm(windowHours);
+  return { windowHours, totalMm, thresholdMm, reached: totalMm >= thresholdMm };
+};
+
+export const measureIrrigationRain = (
+  config: RainAccessoryConfig,
+  forecast: WeatherForecastSlice[],
+  now: number,
+  rainfallMm: (windowHours: number) => number,
+): IrrigationRainResult => {
+  const pastWindowHours = config.pastWindowHours ?? DEFAULT_ACCUMULATION_WINDOW_HOURS;
+  const forecastWindowHours = config.forecastWindowHours ?? DEFAULT_FORECAST_WINDOW_HOURS;
+  const pastThresholdMm = config.pastThresholdMm ?? DEFAULT_PAST_THRESHOLD_MM;
+  const forecastThresholdMm = config.forecastThresholdMm ?? DEFAULT_FORECAST_THRESHOLD_MM;
+  const pastMm = rainfallMm(pastWindowHours);
+  const forecastMm = sumForecastMm(forecast, forecastWindowHours * 60, now);
+  return {
+    pastWindowHours,
+    forecastWindowHours,
+    pastMm,
+    forecastMm,
+    pastThresholdMm,
+    forecastThresholdMm,
+    pastTriggered: pastMm >= pastThresholdMm,
+    forecastTriggered: forecastMm >= forecastThresholdMm,
+  };
+};
+
+export const irrigationDelayHours = (config: RainAccessoryConfig): number => {
+  return Math.min(config.delayHours ?? DEFAULT_DELAY_HOURS, MAX_DELAY_HOURS);
+};
+
+// Picks the most severe unexpired alert that matches the configured events or minimum severity.
+export const selectAlert = (config: RainAccessoryConfig, alerts: WeatherAlert[], now: number): WeatherAlert | null => {
+  const events = (config.alertEvents ?? []).map((event) => event.trim().toLowerCase()).filter(Boolean);
+  const minSeverity = config.alertSeverity;
+  let selected: WeatherAlert | null = null;
+  for (const alert of alerts) {
+    if (alert.expires != null && alert.expires <= now) {
+      continue;
+    }
+    const eventName = alert.event.toLowerCase();
+    const eventMatch = events.some((event) => eventName.includes(event));
+    const severityMatch = minSeverity != null && SEVERITY_RANK[alert.severity] >= SEVERITY_RANK[minSeverity];
+    const unfiltered = !events.length && minSeverity == null;
+    if (!unfiltered && !eventMatch && !severityMatch) {
+      continue;
+    }
+    if (!selected || SEVERITY_RANK[alert.severity] > SEVERITY_RANK[selected.severity]) {
+      selected = alert;
+    }
+  }
+  return selected;
+};
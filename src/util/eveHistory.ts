@@ -0,0 +1,39 @@
+import fakegato from 'fakegato-history';
+import path from 'path';
+import type { API, Logger, PlatformAccessory } from 'homebridge';
+
+const STORE_DIR_NAME = 'rain-switch';
+
+export interface EveHistory {
+  record(ts: number, on: boolean, precipMmHr: number): void;
+}
+
+export type EveHistoryFactory = (accessory: PlatformAccessory) => EveHistory;
+
+// Eve has no precipitation graph, so intensity rides on the power channel of a custom history.
+export const makeEveHistoryFactory = (api: API, log: Logger, storagePath: string): EveHistoryFactory => {
+  const HistoryService = fakegato(api);
+  return (accessory: PlatformAccessory): EveHistory => {
+    const cached = accessory.getService(HistoryService);
+    if (cached) {
+      accessory.removeService(cached);
+    }
+    const service = new HistoryService('custom', accessory, {
+      storage: 'fs',
+      path: path.join(storagePath, STORE_DIR_NAME),
+      filename: `${accessory.UUID}_history.json`,
+      disableTimer: true,
+      log,
+    });
+    accessory.addService(service);
+    return {
+      record(ts: number, on: boolean, precipMmHr: number): void {
+        service.addEntry({
+          time: Math.round(ts / 1000),
+          status: on ? 1 : 0,
+          power: Number(precipMmHr.toFixed(2)),
+        });
+      },
+    };
+  };
+};
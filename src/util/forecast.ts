@@ -0,0 +1,83 @@
+import type { WeatherForecastSlice } from '../types';
+
+// Used for the final slice of a timeline, whose length cannot be derived from its successor.
+const DEFAULT_SLICE_MS = 60 * 60 * 1000;
+// NWS grid values can span several hours; anything longer is treated as a gap in the data.
+const MAX_SLICE_MS = 6 * 60 * 60 * 1000;
+
+// Providers list minute-level slices before hourly ones, so the finer resolution wins a tie.
+export const normaliseTimeline = (slices: WeatherForecastSlice[]): WeatherForecastSlice[] => {
+  const sorted = [...slices].sort((a, b) => a.ts - b.ts);
+  const timeline: WeatherForecastSlice[] = [];
+  for (const slice of sorted) {
+    if (timeline.length && timeline[timeline.length - 1].ts === slice.ts) {
+      continue;
+    }
+    timeline.push(slice);
+  }
+  return timeline;
+};
+
+// Each slice is assumed to last until the next one begins.
+export const sumForecastMm = (slices: WeatherForecastSlice[], windowMinutes: number, now: number): number => {
+  const timeline = normaliseTimeline(slices);
+  const windowEnd = now + windowMinutes * 60_000;
+  let total = 0;
+  for (let index = 0; index < timeline.length; index += 1) {
+    const slice = timeline[index];
+    const nextTs = timeline[index + 1]?.ts ?? slice.ts + DEFAULT_SLICE_MS;
+    const start = Math.max(slice.ts, now);
+    const end = Math.min(nextTs, slice.ts + MAX_SLICE_MS, windowEnd);
+    if (end <= start) {
+      continue;
+    }
+    total += Math.max(0, slice.precipMmHr) * ((end - start) / 3_600_000);
+  }
+  return total;
+};
+
+// Minutes from now until the forecast data runs out: the end of the last slice before the
+// timeline ends or breaks off. A final slice is as long as the one before it.
+export const forecastCoverageMinutes = (slices: WeatherForecastSlice[]): number => {
+  const timeline = normaliseTimeline(slices);
+  for (let index = 0; index < timeline.length; index += 1) {
+    const slice = timeline[index];
+    const next = timeline[index + 1];
+    if (next && next.ts - slice.ts <= MAX_SLICE_MS) {
+      continue;
+    }
+    const previous = timeline[index - 1];
+    const lengthMs = !next && previous && slice.ts - previous.ts <= MAX_SLICE_MS ? slice.ts - previous.ts : DEFAULT_SLICE_MS;
+    return Math.max(0, Math.floor(slice.minutesFromNow + lengthMs / 60_000));
+  }
+  return 0;
+};
+
+export interface PrecipitationCountdown {
+  startsInMinutes: number | null;
+  endsInMinutes: number | null;
+}
+
+// Minutes are measured from `now`; null means the change is not expected within the timeline.
+export const findPrecipitationCountdown = (
+  slices: WeatherForecastSlice[],
+  precipitatingNow: boolean,
+  isWet: (slice: WeatherForecastSlice) => boolean,
+  now: number,
+): PrecipitationCountdown => {
+  const timeline = normaliseTimeline(slices);
+  const minutesUntil = (ts: number): number => Math.max(0, Math.round((ts - now) / 60_000));
+
+  let startIndex = -1;
+  if (!precipitatingNow) {
+    startIndex = timeline.findIndex(isWet);
+    if (startIndex < 0) {
+      return { startsInMinutes: null, endsInMinutes: null };
+    }
+  }
+  const end = timeline.slice(startIndex + 1).find((slice) => !isWet(slice));
+  return {
+    startsInMinutes: startIndex < 0 ? 0 : minutesUntil(timeline[startIndex].ts),
+    endsInMinutes: end ? minutesUntil(end.ts) : null,
+  };
+};
@@ -2,9 +2,10 @@ import { mkdir, readFile, writeFile } from 'fs/promises';
 import { existsSync } from 'fs';
 import os from 'os';
 import path from 'path';
-import { request } from 'undici';
 import type { Logger } from 'homebridge';
 import type { LocationConfig } from '../types';
+import type { HttpRequest } from './recording';
+import { makeHttpClient } from './http';
 
 const LEGACY_CACHE_FILE = path.join(os.homedir(), '.homebridge-rain-switch-cache.json');
 const CACHE_DIR_NAME = 'rain-switch';
@@ -65,11 +66,10 @@ async function saveCache(storagePath: string | undefined, cache: LocationCache):
   }
 }
 
-async function fetchJson<T>(url: string, timeoutMs: number | undefined): Promise<T> {
-  const options: Parameters<typeof request>[1] = {
+async function fetchJson<T>(http: HttpRequest, url: string, timeoutMs: number | undefined): Promise<T> {
+  const options: Parameters<HttpRequest>[1] = {
     method: 'GET',
     headers: {
-      'User-Agent': 'homebridge-rain-switch/0',
       'Accept': 'application/json',
     },
   };
@@ -77,7 +77,7 @@ async function fetchJson<T>(url: string, timeoutMs: number | undefined): Promise
     options.bodyTimeout = timeoutMs;
     options.headersTimeout = timeoutMs;
   }
-  const { body, statusCode } = await request(url, options);
+  const { body, statusCode } = await http(url, options);
   if (statusCode < 200 || statusCode >= 300) {
     throw new Error(`HTTP ${statusCode}`);
   }
@@ -94,14 +94,17 @@ export async function resolveLocation(
   cfg?: LocationConfig,
   storagePath?: string,
   timeoutMs?: number,
+  cacheScope?: string,
+  http: HttpRequest = makeHttpClient(log),
 ): Promise<ResolvedLocation | null> {
   const cache = await loadCache(storagePath);
+  const explicitKey = cacheScope ? `${cacheScope}:explicit` : 'explicit';
 
   if (cfg && isFiniteCoordinate(cfg.lat) && isFiniteCoordinate(cfg.lon)) {
     const lat = cfg.lat;
     const lon = cfg.lon;
     const source = 'config';
-    cache['explicit'] = { lat, lon, source, ts: Date.now() };
+    cache[explicitKey] = { lat, lon, source, ts: Date.now() };
     await saveCache(storagePath, cache);
     return { lat, lon, source };
   }
@@ -115,7 +118,7 @@ export async function resolveLocation(
     }
     try {
       const url = `https://nominatim.openstreetmap.org/search?format=json&q=${encodeURIComponent(cfg.address)}&limit=1`;
-      const result = await fetchJson<Array<{ lat: string; lon: string }>>(url, timeoutMs);
+      const result = await fetchJson<Array<{ lat: string; lon: string }>>(http, url, timeoutMs);
       if (result.length) {
         const lat = parseFloat(result[0].lat);
         const lon = parseFloat(result[0].lon);
@@ -140,7 +143,7 @@ export async function resolveLocation(
       return { lat: cached.lat, lon: cached.lon, source: cached.source };
     }
     try {
-      const data = await fetchJson<{ latitude: number; longitude: number; lat?: number; lon?: number }>('https://ipapi.co/json/', timeoutMs);
+      const data = await fetchJson<{ latitude: number; longitude: number; lat?: number; lon?: number }>(http, 'https://ipapi.co/json/', timeoutMs);
       const lat = data.latitude ?? data.lat;
       const lon = data.longitude ?? data.lon;
       if (isFiniteCoordinate(lat) && isFiniteCoordinate(lon)) {
@@ -154,8 +157,8 @@ export async function resolveLocation(
     }
   }
 
-  if (cache['explicit']) {
-    const { lat, lon, source } = cache['explicit'];
+  if (cache[explicitKey]) {
+    const { lat, lon, source } = cache[explicitKey];
     log.debug('Falling back to cached explicit coordinates');
     return { lat, lon, source };
   }
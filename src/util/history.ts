@@ -0,0 +1,145 @@
+import { appendFile, mkdir, readFile, rename, unlink, writeFile } from 'fs/promises';
+import { existsSync } from 'fs';
+import path from 'path';
+import type { Logger } from 'homebridge';
+import type { PrecipType } from '../types';
+
+const STORE_DIR_NAME = 'rain-switch';
+// The log is rewritten once it holds at least this many lines beyond the live entries, and at least as many as are live.
+const MIN_COMPACT_LINES = 500;
+
+export const DEFAULT_HISTORY_RETENTION_DAYS = 7;
+export const MAX_HISTORY_RETENTION_DAYS = 31;
+
+export interface WeatherHistoryEntry {
+  ts: number;
+  provider: string;
+  precipMmHr: number;
+  pop?: number;
+  type: PrecipType;
+}
+
+export interface SwitchHistoryEntry {
+  ts: number;
+  accessory: string;
+  on: boolean;
+}
+
+export interface HistoryStore<T extends { ts: number }> {
+  load(): Promise<void>;
+  append(entry: T): Promise<void>;
+  entries(sinceTs?: number): T[];
+}
+
+// Entries are kept oldest first and trimmed from the front once they age out or the cap is hit.
+// On disk each entry is one JSON line in `<storeName>.jsonl`; aged-out lines are dropped by
+// rewriting the file to a temporary name and renaming it over the log.
+export const makeHistoryStore = <T extends { ts: number }>(
+  log: Logger,
+  storagePath: string,
+  storeName: string,
+  retentionMs: number,
+  maxEntries: number,
+): HistoryStore<T> => {
+  const storeDir = path.join(storagePath, STORE_DIR_NAME);
+  const storeFile = path.join(storeDir, `${storeName}.jsonl`);
+  // Earlier versions rewrote the whole store as one JSON document on every change.
+  const legacyFile = path.join(storeDir, `${storeName}.json`);
+  let buffer: T[] = [];
+  // Lines in the log once every queued write has run.
+  let fileLines = 0;
+  let writes: Promise<void> = Promise.resolve();
+
+  const trim = (now: number): void => {
+    const cutoff = now - retentionMs;
+    let start = 0;
+    while (start < buffer.length && buffer[start].ts < cutoff) {
+      start += 1;
+    }
+    start = Math.max(start, buffer.length - maxEntries);
+    if (start > 0) {
+      buffer = buffer.slice(start);
+    }
+  };
+
+  // Writes run one at a time, because concurrent writes to the same file can interleave or truncate it.
+  const enqueue = (task: () => Promise<void>): Promise<void> => {
+    writes = writes.then(task).catch((error: Error) => {
+      log.warn('Failed to save history %s: %s', storeName, error.message);
+    });
+    return writes;
+  };
+
+  const compact = (): Promise<void> => {
+    const lines = buffer.map((entry) => `${JSON.stringify(entry)}\n`);
+    fileLines = lines.length;
+    return enqueue(async () => {
+      await mkdir(storeDir, { recursive: true });
+      await writeFile(`${storeFile}.tmp`, lines.join(''));
+      await rename(`${storeFile}.tmp`, storeFile);
+    });
+  };
+
+  const readEntries = async (): Promise<{ entries: T[]; lines: number; legacy: boolean }> => {
+    if (existsSync(storeFile)) {
+      const lines = (await readFile(storeFile, 'utf8')).split('\n').filter((line) => line.trim());
+      const entries: T[] = [];
+      for (const line of lines) {
+        try {
+          entries.push(JSON.parse(line) as T);
+        } catch {
+          // A line cut short by a crash is dropped at the next compaction.
+        }
+      }
+      return { entries, lines: lines.length, legacy: false };
+    }
+    if (existsSync(legacyFile)) {
+      const parsed = JSON.parse(await readFile(legacyFile, 'utf8')) as { entries?: T[] };
+      return { entries: parsed.entries ?? [], lines: 0, legacy: true };
+    }
+    return { entries: [], lines: 0, legacy: false };
+  };
+
+  return {
+    async load(): Promise<void> {
+      try {
+        const { entries, lines, legacy } = await readEntries();
+        buffer = entries
+          .filter((entry) => Number.isFinite(entry?.ts))
+          .sort((a, b) => a.ts - b.ts);
+        trim(Date.now());
+        fileLines = lines;
+        log.debug('Loaded %d history entries from %s', buffer.length, storeName);
+        if (legacy || fileLines > buffer.length) {
+          await compact();
+        }
+        if (legacy && existsSync(storeFile)) {
+          await unlink(legacyFile);
+        }
+      } catch (error) {
+        log.warn('Failed to load history %s: %s', storeName, (error as Error).message);
+        buffer = [];
+      }
+    },
+    append(entry: T): Promise<void> {
+      const last = buffer[buffer.length - 1];
+      if (last && entry.ts < last.ts) {
+        return Promise.resolve();
+      }
+      buffer.push(entry);
+      trim(entry.ts);
+      fileLines += 1;
+      if (fileLines - buffer.length >= Math.max(MIN_COMPACT_LINES, buffer.length)) {
+        return compact();
+      }
+      const line = `${JSON.stringify(entry)}\n`;
+      return enqueue(async () => {
+        await mkdir(storeDir, { recursive: true });
+        await appendFile(storeFile, line);
+      });
+    },
+    entries(sinceTs = 0): T[] {
+      return buffer.filter((entry) => entry.ts >= sinceTs);
+    },
+  };
+};
@@ -0,0 +1,118 @@
+import { EnvHttpProxyAgent, request, type Dispatcher } from 'undici';
+import type { Logger } from 'homebridge';
+import type { HttpRequest, RequestOptions, RequestResult } from './recording';
+import { PLUGIN_NAME, PLUGIN_VERSION } from '../version';
+
+// api.weather.gov asks every client for a way to reach its author; this is used until one is configured.
+export const DEFAULT_CONTACT = 'https://github.com/DummyRainSwitch/homebridge-rain-switch';
+// Responses that carry an ETag or Last-Modified header are kept for revalidation, for this many URLs.
+const MAX_VALIDATED_URLS = 32;
+// A 429 without a usable Retry-After header keeps the host off limits for this long.
+const DEFAULT_RETRY_AFTER_MS = 60_000;
+const PROXY_VARIABLES = ['HTTPS_PROXY', 'https_proxy', 'HTTP_PROXY', 'http_proxy'];
+
+export interface HttpClientOptions {
+  // Email address or URL sent in the User-Agent header.
+  contact?: string;
+}
+
+export class RateLimitedError extends Error {}
+
+interface ValidatedResponse {
+  etag?: string;
+  lastModified?: string;
+  statusCode: number;
+  headers: RequestResult['headers'];
+  text: string;
+}
+
+// Every outgoing request goes through here: one User-Agent, the proxy from the environment,
+// conditional GETs where the server hands out validators, and Retry-After after a 429.
+export const makeHttpClient = (log: Logger, options: HttpClientOptions = {}): HttpRequest => {
+  const userAgent = `${PLUGIN_NAME}/${PLUGIN_VERSION} (${options.contact?.trim() || DEFAULT_CONTACT})`;
+  const dispatcher = proxyDispatcher(log);
+  const validated = new Map<string, ValidatedResponse>();
+  // Rate limits are real, so they follow the wall clock even during simulations.
+  const blockedUntil = new Map<string, number>();
+
+  const remember = (url: string, entry: ValidatedResponse): void => {
+    validated.delete(url);
+    validated.set(url, entry);
+    if (validated.size > MAX_VALIDATED_URLS) {
+      validated.delete(validated.keys().next().value as string);
+    }
+  };
+
+  return async (url: string, requestOptions: RequestOptions = {}): Promise<RequestResult> => {
+    const host = new URL(url).host;
+    const now = Date.now();
+    const until = blockedUntil.get(host) ?? 0;
+    if (now < until) {
+      throw new RateLimitedError(`${host} is rate limiting requests; retrying in ${Math.ceil((until - now) / 1000)}s`);
+    }
+    const isGet = (requestOptions.method ?? 'GET') === 'GET';
+    const cached = isGet ? validated.get(url) : undefined;
+    const headers: Record<string, string> = { 'User-Agent': userAgent, ...requestOptions.headers };
+    if (cached?.etag) {
+      headers['If-None-Match'] = cached.etag;
+    }
+    if (cached?.lastModified) {
+      headers['If-Modified-Since'] = cached.lastModified;
+    }
+
+    const result = await request(url, { ...requestOptions, headers, ...(dispatcher ? { dispatcher } : {}) });
+    if (result.statusCode === 429) {
+      await result.body.text();
+      const waitMs = parseRetryAfter(headerValue(result.headers, 'retry-after'), now) ?? DEFAULT_RETRY_AFTER_MS;
+      blockedUntil.set(host, now + waitMs);
+      throw new RateLimitedError(`${host} returned HTTP 429; retrying in ${Math.ceil(waitMs / 1000)}s`);
+    }
+    blockedUntil.delete(host);
+    if (result.statusCode === 304 && cached) {
+      await result.body.text();
+      remember(url, cached);
+      log.debug('%s not modified; reusing the previous response', url.split('?')[0]);
+      return respond(cached.statusCode, cached.headers, cached.text);
+    }
+    const etag = headerValue(result.headers, 'etag');
+    const lastModified = headerValue(result.headers, 'last-modified');
+    if (!isGet || result.statusCode !== 200 || (!etag && !lastModified)) {
+      return result;
+    }
+    const text = await result.body.text();
+    remember(url, { etag, lastModified, statusCode: result.statusCode, headers: result.headers, text });
+    return respond(result.statusCode, result.headers, text);
+  };
+};
+
+// EnvHttpProxyAgent applies NO_PROXY itself; without any proxy variable the default agent is kept.
+const proxyDispatcher = (log: Logger): Dispatcher | undefined => {
+  const variable = PROXY_VARIABLES.find((name) => process.env[name]);
+  if (!variable) {
+    return undefined;
+  }
+  log.debug('Sending weather requests through the proxy in %s', variable);
+  return new EnvHttpProxyAgent();
+};
+
+const respond = (statusCode: number, headers: RequestResult['headers'], text: string): RequestResult => {
+  return { statusCode, headers, body: { text: () => Promise.resolve(text) } };
+};
+
+const headerValue = (headers: RequestResult['headers'], name: string): string | undefined => {
+  const value = headers[name];
+  return Array.isArray(value) ? value[0] : value;
+};
+
+// Retry-After is either a number of seconds or an HTTP date.
+const parseRetryAfter = (value: string | undefined, now: number): number | null => {
+  if (!value) {
+    return null;
+  }
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(value);
+  return Number.isFinite(date) ? Math.max(0, date - now) : null;
+};
@@ -1,17 +1,23 @@
 export interface HysteresisOptions {
   minOnMs: number;
   minOffMs: number;
+  // Consecutive polls that must ask for the other state before it is applied.
+  debouncePolls?: number;
 }
 
 export interface HysteresisState {
   next(desired: boolean, now: number): boolean;
   reset(initial?: boolean): void;
+  restore(state: boolean, lastFlip: number): void;
   getState(): boolean;
+  getLastFlip(): number;
+  getPendingPolls(): number;
 }
 
-export const makeHysteresis = ({ minOnMs, minOffMs }: HysteresisOptions): HysteresisState => {
+export const makeHysteresis = ({ minOnMs, minOffMs, debouncePolls = 1 }: HysteresisOptions): HysteresisState => {
   let state = false;
   let lastFlip = 0;
+  let pending = 0;
 
   const clamp = (value: number): number => {
     if (!Number.isFinite(value)) {
@@ -22,6 +28,7 @@ export const makeHysteresis = ({ minOnMs, minOffMs }: HysteresisOptions): Hyster
 
   const minOn = clamp(minOnMs);
   const minOff = clamp(minOffMs);
+  const requiredPolls = Math.max(1, Math.floor(clamp(debouncePolls)));
 
   return {
     next(desired: boolean, now: number): boolean {
@@ -32,23 +39,38 @@ export const makeHysteresis = ({ minOnMs, minOffMs }: HysteresisOptions): Hyster
       }
 
       if (desired === state) {
+        pending = 0;
         return state;
       }
 
+      pending += 1;
       const elapsed = now - lastFlip;
       const gate = state ? minOn : minOff;
-      if (elapsed >= gate) {
+      if (pending >= requiredPolls && elapsed >= gate) {
         state = desired;
         lastFlip = now;
+        pending = 0;
       }
       return state;
     },
     reset(initial = false): void {
       state = initial;
       lastFlip = 0;
+      pending = 0;
+    },
+    restore(restoredState: boolean, restoredLastFlip: number): void {
+      state = restoredState;
+      lastFlip = Number.isFinite(restoredLastFlip) ? Math.max(0, restoredLastFlip) : 0;
+      pending = 0;
     },
     getState(): boolean {
       return state;
     },
+    getLastFlip(): number {
+      return lastFlip;
+    },
+    getPendingPolls(): number {
+      return pending;
+    },
   };
 };
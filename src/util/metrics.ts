@@ -0,0 +1,159 @@
+import type { WeatherSite } from '../site';
+import type { ProviderUsage } from './quota';
+
+export type ProviderCallOutcome = 'success' | 'failure' | 'timeout';
+
+// Upper bounds in seconds; providers are cut off by the polling timeout (5s by default).
+const LATENCY_BUCKETS = [0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+interface ProviderSeries {
+  location: string;
+  provider: string;
+  calls: number;
+  failures: number;
+  timeouts: number;
+  bucketCounts: number[];
+  latencySum: number;
+}
+
+export interface MetricsRegistry {
+  recordProviderCall(location: string, provider: string, durationMs: number, outcome: ProviderCallOutcome): void;
+  render(sites: WeatherSite[], quota?: ProviderUsage[]): string;
+}
+
+export const makeMetricsRegistry = (): MetricsRegistry => {
+  const series = new Map<string, ProviderSeries>();
+
+  const seriesFor = (location: string, provider: string): ProviderSeries => {
+    const key = `${location}\u0000${provider}`;
+    let entry = series.get(key);
+    if (!entry) {
+      entry = {
+        location,
+        provider,
+        calls: 0,
+        failures: 0,
+        timeouts: 0,
+        bucketCounts: LATENCY_BUCKETS.map(() => 0),
+        latencySum: 0,
+      };
+      series.set(key, entry);
+    }
+    return entry;
+  };
+
+  return {
+    recordProviderCall(location: string, provider: string, durationMs: number, outcome: ProviderCallOutcome): void {
+      const entry = seriesFor(location, provider);
+      const seconds = durationMs / 1000;
+      entry.calls += 1;
+      if (outcome !== 'success') {
+        entry.failures += 1;
+      }
+      if (outcome === 'timeout') {
+        entry.timeouts += 1;
+      }
+      entry.latencySum += seconds;
+      LATENCY_BUCKETS.forEach((bound, index) => {
+        if (seconds <= bound) {
+          entry.bucketCounts[index] += 1;
+        }
+      });
+    },
+    render(sites: WeatherSite[], quota: ProviderUsage[] = []): string {
+      const lines: string[] = [];
+      const family = (name: string, type: string, help: string): void => {
+        lines.push(`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`);
+      };
+      const sample = (name: string, labels: Record<string, string>, value: number): void => {
+        lines.push(`${name}${formatLabels(labels)} ${formatValue(value)}`);
+      };
+
+      family('rain_switch_precipitation_mm_per_hour', 'gauge', 'Latest measured precipitation intensity.');
+      for (const site of sites) {
+        const weather = site.getLastWeather();
+        if (weather) {
+          sample('rain_switch_precipitation_mm_per_hour', { location: site.key, provider: weather.providerName }, weather.precipMmHr);
+        }
+      }
+      family('rain_switch_precipitation_probability_percent', 'gauge', 'Latest probability of precipitation.');
+      for (const site of sites) {
+        const weather = site.getLastWeather();
+        if (weather?.pop != null) {
+          sample('rain_switch_precipitation_probability_percent', { location: site.key, provider: weather.providerName }, weather.pop);
+        }
+      }
+      family('rain_switch_accessory_on', 'gauge', 'Whether the accessory is currently ON (1) or OFF (0).');
+      for (const site of sites) {
+        for (const accessory of site.getAccessories()) {
+          const status = accessory.getStatus();
+          sample('rain_switch_accessory_on', { location: site.key, accessory: status.name, type: status.type }, status.on ? 1 : 0);
+        }
+      }
+      const reporting = sites.flatMap((site) => {
+        const health = site.getHealth();
+        return health ? [{ location: site.key, health }] : [];
+      });
+      family('rain_switch_provider_backoff_index', 'gauge', 'Current position in the retry backoff schedule.');
+      for (const { location, health } of reporting) {
+        sample('rain_switch_provider_backoff_index', { location }, health.backoffIndex);
+      }
+      family('rain_switch_provider_next_allowed_timestamp_seconds', 'gauge', 'Unix time before which the provider chain is backing off.');
+      for (const { location, health } of reporting) {
+        sample('rain_switch_provider_next_allowed_timestamp_seconds', { location }, health.nextAllowedTs / 1000);
+      }
+      family('rain_switch_provider_quota_used', 'gauge', 'Provider requests made in the current UTC day or month.');
+      for (const usage of quota) {
+        sample('rain_switch_provider_quota_used', { provider: usage.provider, period: 'daily' }, usage.dayCalls);
+        sample('rain_switch_provider_quota_used', { provider: usage.provider, period: 'monthly' }, usage.monthCalls);
+      }
+      family('rain_switch_provider_quota_limit', 'gauge', 'Configured provider call budget.');
+      for (const usage of quota) {
+        if (usage.dailyLimit) {
+          sample('rain_switch_provider_quota_limit', { provider: usage.provider, period: 'daily' }, usage.dailyLimit);
+        }
+        if (usage.monthlyLimit) {
+          sample('rain_switch_provider_quota_limit', { provider: usage.provider, period: 'monthly' }, usage.monthlyLimit);
+        }
+      }
+
+      const entries = [...series.values()];
+      family('rain_switch_provider_calls_total', 'counter', 'Provider requests attempted.');
+      for (const entry of entries) {
+        sample('rain_switch_provider_calls_total', { location: entry.location, provider: entry.provider }, entry.calls);
+      }
+      family('rain_switch_provider_failures_total', 'counter', 'Provider requests that failed, including timeouts.');
+      for (const entry of entries) {
+        sample('rain_switch_provider_failures_total', { location: entry.location, provider: entry.provider }, entry.failures);
+      }
+      family('rain_switch_provider_timeouts_total', 'counter', 'Provider requests that hit the polling timeout.');
+      for (const entry of entries) {
+        sample('rain_switch_provider_timeouts_total', { location: entry.location, provider: entry.provider }, entry.timeouts);
+      }
+      family('rain_switch_provider_latency_seconds', 'histogram', 'Provider request latency.');
+      for (const entry of entries) {
+        const labels = { location: entry.location, provider: entry.provider };
+        LATENCY_BUCKETS.forEach((bound, index) => {
+          sample('rain_switch_provider_latency_seconds_bucket', { ...labels, le: String(bound) }, entry.bucketCounts[index]);
+        });
+        sample('rain_switch_provider_latency_seconds_bucket', { ...labels, le: '+Inf' }, entry.calls);
+        sample('rain_switch_provider_latency_seconds_sum', labels, entry.latencySum);
+        sample('rain_switch_provider_latency_seconds_count', labels, entry.calls);
+      }
+      return `${lines.join('\n')}\n`;
+    },
+  };
+};
+
+const formatLabels = (labels: Record<string, string>): string => {
+  const pairs = Object.entries(labels).map(([key, value]) => `${key}="${escapeLabel(value)}"`);
+  return pairs.length ? `{${pairs.join(',')}}` : '';
+};
+
+const escapeLabel = (value: string): string => {
+  return value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+};
+
+const formatValue = (value: number): string => {
+  return Number.isFinite(value) ? String(value) : 'NaN';
+};
@@ -0,0 +1,53 @@
+export type PollPace = 'fast' | 'normal' | 'slow';
+
+export interface AdaptivePollingOptions {
+  fastMs: number;
+  slowMs: number;
+  // How long it has to stay dry before polling slows down.
+  slowAfterMs: number;
+}
+
+export interface PollSchedulerOptions {
+  intervalMs: number;
+  adaptive: AdaptivePollingOptions | null;
+  // Each delay is moved by up to this fraction either way so installs drift apart.
+  jitterRatio: number;
+}
+
+export interface PollStep {
+  pace: PollPace;
+  baseMs: number;
+  delayMs: number;
+}
+
+export interface PollScheduler {
+  readonly adaptive: boolean;
+  next(wet: boolean, now: number): PollStep;
+}
+
+export const makePollScheduler = ({ intervalMs, adaptive, jitterRatio }: PollSchedulerOptions): PollScheduler => {
+  let lastWetAt: number | null = null;
+  const ratio = Number.isFinite(jitterRatio) ? Math.max(0, Math.min(0.5, jitterRatio)) : 0;
+
+  const step = (pace: PollPace, baseMs: number): PollStep => {
+    const offset = ratio ? (Math.random() * 2 - 1) * ratio * baseMs : 0;
+    return { pace, baseMs, delayMs: Math.round(baseMs + offset) };
+  };
+
+  return {
+    adaptive: adaptive !== null,
+    next(wet: boolean, now: number): PollStep {
+      if (!adaptive) {
+        return step('normal', intervalMs);
+      }
+      // The dry spell is counted from the first poll, so a restart never starts out slow.
+      if (wet || lastWetAt === null) {
+        lastWetAt = now;
+      }
+      if (wet) {
+        return step('fast', adaptive.fastMs);
+      }
+      return now - lastWetAt >= adaptive.slowAfterMs ? step('slow', adaptive.slowMs) : step('normal', intervalMs);
+    },
+  };
+};
@@ -0,0 +1,74 @@
+import type { PrecipType } from '../types';
+
+export const PRECIP_TYPES: PrecipType[] = [
+  'none',
+  'drizzle',
+  'rain',
+  'freezing-rain',
+  'ice-pellets',
+  'mixed',
+  'snow',
+  'hail',
+  'thunderstorm',
+];
+
+// Defaults for accessories without `precipTypes`: everything wet that is not plain snow counts as rain,
+// and wintry mixes count as snow as well, as they did before types could be chosen.
+export const RAIN_TYPES: PrecipType[] = ['drizzle', 'rain', 'freezing-rain', 'ice-pellets', 'mixed', 'hail', 'thunderstorm'];
+export const SNOW_TYPES: PrecipType[] = ['snow', 'mixed', 'ice-pellets'];
+
+// US providers call ice pellets "sleet"; older configs and scenarios used it as well.
+const ALIASES: Record<string, PrecipType> = {
+  sleet: 'ice-pellets',
+  freezingrain: 'freezing-rain',
+  icepellets: 'ice-pellets',
+  thunderstorms: 'thunderstorm',
+  storm: 'thunderstorm',
+};
+
+// When one period reports several kinds of weather, the most disruptive one wins.
+const RANK: Record<PrecipType, number> = {
+  none: 0,
+  drizzle: 1,
+  rain: 2,
+  snow: 3,
+  mixed: 4,
+  'ice-pellets': 5,
+  'freezing-rain': 6,
+  thunderstorm: 7,
+  hail: 8,
+};
+
+export const isRainType = (type: PrecipType): boolean => RAIN_TYPES.includes(type);
+
+export const parsePrecipType = (value: string): PrecipType | null => {
+  const normalized = value.trim().toLowerCase().replace(/[\s_]+/g, '-');
+  const known = PRECIP_TYPES.find((type) => type === normalized);
+  return known ?? ALIASES[normalized.replace(/-/g, '')] ?? null;
+};
+
+// Unknown names are reported through `warn` and skipped; an empty result means "use the defaults".
+export const parsePrecipTypes = (values: string[] | undefined, warn: (message: string) => void): PrecipType[] | undefined => {
+  if (!Array.isArray(values)) {
+    return undefined;
+  }
+  const types: PrecipType[] = [];
+  for (const value of values) {
+    const type = typeof value === 'string' ? parsePrecipType(value) : null;
+    if (!type || type === 'none') {
+      warn(`precipTypes: unknown type "${String(value)}" (expected ${PRECIP_TYPES.filter((entry) => entry !== 'none').join(', ')})`);
+      continue;
+    }
+    if (!types.includes(type)) {
+      types.push(type);
+    }
+  }
+  return types.length ? types : undefined;
+};
+
+// Rain and snow reported for the same period are a wintry mix.
+export const combinePrecipTypes = (types: PrecipType[]): PrecipType => {
+  const hasLiquid = types.some((type) => type === 'rain' || type === 'drizzle');
+  const candidates: PrecipType[] = hasLiquid && types.includes('snow') ? [...types, 'mixed'] : types;
+  return candidates.reduce<PrecipType>((worst, type) => (RANK[type] > RANK[worst] ? type : worst), 'none');
+};
@@ -0,0 +1,305 @@
+import { mkdir, readFile, rename, writeFile } from 'fs/promises';
+import { existsSync } from 'fs';
+import path from 'path';
+import type { Logger } from 'homebridge';
+import type { CallBudgetConfig, ProviderConfig, RainSwitchPlatformConfig } from '../types';
+import type { HttpRequest, ProviderId, RequestOptions, RequestResult } from './recording';
+import { RateLimitedError } from './http';
+
+const STORE_DIR_NAME = 'rain-switch';
+const STORE_FILE_NAME = 'provider-usage.json';
+// Past this share of a budget, calls are spread over the rest of the day or month.
+const PACING_SHARE = 0.8;
+
+const BUDGETED_PROVIDERS = ['weatherkit', 'openweathermap', 'tomorrow', 'openmeteo'] as const;
+
+type Period = 'daily' | 'monthly';
+
+export interface ProviderUsage {
+  provider: ProviderId;
+  day: string;
+  dayCalls: number;
+  month: string;
+  monthCalls: number;
+  dailyLimit?: number;
+  monthlyLimit?: number;
+  lastCall: number;
+  blockedReason: string | null;
+}
+
+export interface QuotaTracker {
+  load(): Promise<void>;
+  // Null when the provider may be called now, otherwise why it is being skipped.
+  blockedReason(provider: ProviderId, now: number): string | null;
+  wrap(provider: ProviderId, http: HttpRequest): HttpRequest;
+  usage(now: number): ProviderUsage[];
+}
+
+export class QuotaExceededError extends Error {}
+
+interface UsageEntry {
+  day: string;
+  dayCalls: number;
+  month: string;
+  monthCalls: number;
+  lastCall: number;
+}
+
+// Calls counted by this process that are not in the file yet.
+interface UnsavedCalls {
+  day: string;
+  month: string;
+  calls: number;
+  lastCall: number;
+}
+
+// Counters are kept per provider across all locations, because they normally share one API key.
+// Days and months follow UTC, which is when the paid providers reset their counters. Budgets are
+// real, so they follow the wall clock even during simulations and replays.
+export const makeQuotaTracker = (
+  log: Logger,
+  storagePath: string,
+  budgets: Partial<Record<ProviderId, CallBudgetConfig>>,
+): QuotaTracker => {
+  const storeFile = path.join(storagePath, STORE_DIR_NAME, STORE_FILE_NAME);
+  const tempFile = `${storeFile}.${process.pid}-${Math.random().toString(36).slice(2, 8)}.tmp`;
+  let entries: Partial<Record<ProviderId, UsageEntry>> = {};
+  // Each warning is logged once per provider, period, and level.
+  const warned = new Set<string>();
+  let saves: Promise<void> = Promise.resolve();
+  // The running plugin and `rain-switch-check` share the file, so each save adds the calls counted
+  // here to what is stored rather than overwriting the other process's counts.
+  let unsaved: Partial<Record<ProviderId, UnsavedCalls>> = {};
+
+  const current = (provider: ProviderId, ts: number): UsageEntry => {
+    const day = new Date(ts).toISOString().slice(0, 10);
+    const month = day.slice(0, 7);
+    const entry = entries[provider] ?? { day, dayCalls: 0, month, monthCalls: 0, lastCall: 0 };
+    if (entry.day !== day) {
+      entry.day = day;
+      entry.dayCalls = 0;
+    }
+    if (entry.month !== month) {
+      entry.month = month;
+      entry.monthCalls = 0;
+    }
+    entries[provider] = entry;
+    return entry;
+  };
+
+  const count = (provider: ProviderId, ts: number, delta: number): void => {
+    const entry = current(provider, ts);
+    entry.dayCalls = Math.max(0, entry.dayCalls + delta);
+    entry.monthCalls = Math.max(0, entry.monthCalls + delta);
+    if (delta > 0) {
+      entry.lastCall = ts;
+    }
+    const previous = unsaved[provider]?.day === entry.day ? unsaved[provider] : undefined;
+    unsaved[provider] = {
+      day: entry.day,
+      month: entry.month,
+      calls: (previous?.calls ?? 0) + delta,
+      lastCall: Math.max(previous?.lastCall ?? 0, entry.lastCall),
+    };
+  };
+
+  const readStored = async (): Promise<Partial<Record<ProviderId, UsageEntry>>> => {
+    if (!existsSync(storeFile)) {
+      return {};
+    }
+    const parsed = JSON.parse(await readFile(storeFile, 'utf8')) as { providers?: Partial<Record<ProviderId, UsageEntry>> };
+    const stored: Partial<Record<ProviderId, UsageEntry>> = {};
+    for (const [provider, entry] of Object.entries(parsed.providers ?? {}) as Array<[ProviderId, UsageEntry]>) {
+      if (typeof entry?.day === 'string' && typeof entry.month === 'string' && Number.isFinite(entry.dayCalls) && Number.isFinite(entry.monthCalls)) {
+        stored[provider] = { ...entry, lastCall: Number.isFinite(entry.lastCall) ? entry.lastCall : 0 };
+      }
+    }
+    return stored;
+  };
+
+  // Saves run one at a time and replace the file by renaming, so the other process never reads
+  // a half-written file.
+  const save = (): Promise<void> => {
+    saves = saves.then(async () => {
+      const pending = unsaved;
+      unsaved = {};
+      try {
+        const stored = await readStored().catch(() => ({} as Partial<Record<ProviderId, UsageEntry>>));
+        for (const [provider, calls] of Object.entries(pending) as Array<[ProviderId, UnsavedCalls]>) {
+          stored[provider] = addCalls(stored[provider], calls);
+        }
+        await mkdir(path.dirname(storeFile), { recursive: true });
+        await writeFile(tempFile, JSON.stringify({ providers: stored }));
+        await rename(tempFile, storeFile);
+        // Take in the other process's calls, keeping any counted here while this save ran.
+        entries = stored;
+        for (const [provider, calls] of Object.entries(unsaved) as Array<[ProviderId, UnsavedCalls]>) {
+          entries[provider] = addCalls(entries[provider], calls);
+        }
+      } catch (error) {
+        for (const [provider, calls] of Object.entries(pending) as Array<[ProviderId, UnsavedCalls]>) {
+          const later = unsaved[provider];
+          unsaved[provider] = later?.day === calls.day
+            ? { ...later, calls: later.calls + calls.calls, lastCall: Math.max(later.lastCall, calls.lastCall) }
+            : later ?? calls;
+        }
+        log.warn('Failed to save provider usage: %s', (error as Error).message);
+      }
+    });
+    return saves;
+  };
+
+  const warnOnce = (key: string, message: string, ...params: unknown[]): void => {
+    if (!warned.has(key)) {
+      warned.add(key);
+      log.warn(message, ...params);
+    }
+  };
+
+  const checkPeriod = (provider: ProviderId, period: Period, entry: UsageEntry, ts: number): string | null => {
+    const limit = period === 'daily' ? budgets[provider]?.dailyCallLimit : budgets[provider]?.monthlyCallLimit;
+    if (!limit || limit <= 0) {
+      return null;
+    }
+    const used = period === 'daily' ? entry.dayCalls : entry.monthCalls;
+    const label = period === 'daily' ? entry.day : entry.month;
+    if (used >= limit) {
+      warnOnce(
+        `${provider}:${label}:exhausted`,
+        '[quota] %s has used all %d %s calls; skipping it until the %s resets (UTC)',
+        provider,
+        limit,
+        period,
+        period === 'daily' ? 'day' : 'month',
+      );
+      return `${period} budget of ${limit} calls used`;
+    }
+    if (used < limit * PACING_SHARE) {
+      return null;
+    }
+    warnOnce(
+      `${provider}:${label}:pacing`,
+      '[quota] %s has used %d of %d %s calls; spreading the rest over the remaining %s',
+      provider,
+      used,
+      limit,
+      period,
+      period === 'daily' ? 'day' : 'month',
+    );
+    const gapMs = (periodEnd(period, ts) - ts) / (limit - used);
+    if (ts - entry.lastCall < gapMs) {
+      return `${period} budget pacing: next call in ${Math.ceil((entry.lastCall + gapMs - ts) / 1000)}s`;
+    }
+    return null;
+  };
+
+  const blockedReason = (provider: ProviderId, ts: number): string | null => {
+    if (!budgets[provider]) {
+      return null;
+    }
+    const entry = current(provider, ts);
+    return checkPeriod(provider, 'daily', entry, ts) ?? checkPeriod(provider, 'monthly', entry, ts);
+  };
+
+  return {
+    async load(): Promise<void> {
+      try {
+        entries = await readStored();
+      } catch (error) {
+        log.warn('Failed to load provider usage: %s', (error as Error).message);
+        entries = {};
+      }
+    },
+    blockedReason,
+    // Every request counts, including failed ones, since providers bill for those too. Requests
+    // turned away with HTTP 429, or held back by its Retry-After, are handed back.
+    wrap(provider: ProviderId, http: HttpRequest): HttpRequest {
+      return async (url: string, options?: RequestOptions): Promise<RequestResult> => {
+        const ts = Date.now();
+        const entry = current(provider, ts);
+        const budget = budgets[provider];
+        if (budget) {
+          const exhausted = (budget.dailyCallLimit && entry.dayCalls >= budget.dailyCallLimit)
+            || (budget.monthlyCallLimit && entry.monthCalls >= budget.monthlyCallLimit);
+          if (exhausted) {
+            throw new QuotaExceededError(`${provider} call budget used up`);
+          }
+        }
+        count(provider, ts, 1);
+        await save();
+        try {
+          return await http(url, options);
+        } catch (error) {
+          if (error instanceof RateLimitedError) {
+            count(provider, ts, -1);
+            await save();
+          }
+          throw error;
+        }
+      };
+    },
+    usage(ts: number): ProviderUsage[] {
+      const providers = new Set<ProviderId>([
+        ...Object.keys(entries) as ProviderId[],
+        ...Object.keys(budgets) as ProviderId[],
+      ]);
+      return [...providers].sort().map((provider) => {
+        const entry = current(provider, ts);
+        return {
+          provider,
+          day: entry.day,
+          dayCalls: entry.dayCalls,
+          month: entry.month,
+          monthCalls: entry.monthCalls,
+          dailyLimit: budgets[provider]?.dailyCallLimit,
+          monthlyLimit: budgets[provider]?.monthlyCallLimit,
+          lastCall: entry.lastCall,
+          blockedReason: blockedReason(provider, ts),
+        };
+      });
+    },
+  };
+};
+
+// Locations usually share one API key per provider, so the tightest limit set anywhere applies.
+export const collectCallBudgets = (config: RainSwitchPlatformConfig): Partial<Record<ProviderId, CallBudgetConfig>> => {
+  const blocks: Array<ProviderConfig | undefined> = [config.provider, ...(config.locations ?? []).map((location) => location.provider)];
+  const budgets: Partial<Record<ProviderId, CallBudgetConfig>> = {};
+  const tighter = (a: number | undefined, b: number | undefined): number | undefined => {
+    const limits = [a, b].filter((limit): limit is number => typeof limit === 'number' && limit > 0);
+    return limits.length ? Math.min(...limits) : undefined;
+  };
+  for (const block of blocks) {
+    for (const provider of BUDGETED_PROVIDERS) {
+      const limits = block?.[provider];
+      const daily = tighter(budgets[provider]?.dailyCallLimit, limits?.dailyCallLimit);
+      const monthly = tighter(budgets[provider]?.monthlyCallLimit, limits?.monthlyCallLimit);
+      if (daily !== undefined || monthly !== undefined) {
+        budgets[provider] = { dailyCallLimit: daily, monthlyCallLimit: monthly };
+      }
+    }
+  }
+  return budgets;
+};
+
+// A stored entry from a later day than the unsaved calls keeps its day; they still count toward its month.
+const addCalls = (stored: UsageEntry | undefined, unsavedCalls: UnsavedCalls): UsageEntry => {
+  if (stored && stored.day > unsavedCalls.day) {
+    const monthCalls = stored.month === unsavedCalls.month ? stored.monthCalls + unsavedCalls.calls : stored.monthCalls;
+    return { ...stored, monthCalls: Math.max(0, monthCalls) };
+  }
+  return {
+    day: unsavedCalls.day,
+    month: unsavedCalls.month,
+    dayCalls: Math.max(0, (stored?.day === unsavedCalls.day ? stored.dayCalls : 0) + unsavedCalls.calls),
+    monthCalls: Math.max(0, (stored?.month === unsavedCalls.month ? stored.monthCalls : 0) + unsavedCalls.calls),
+    lastCall: Math.max(stored?.lastCall ?? 0, unsavedCalls.lastCall),
+  };
+};
+
+const periodEnd = (period: Period, ts: number): number => {
+  const date = new Date(ts);
+  return period === 'daily'
+    ? Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() + 1)
+    : Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1);
+};
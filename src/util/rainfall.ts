@@ -0,0 +1,96 @@
+import { mkdir, readFile, rename, writeFile } from 'fs/promises';
+import { existsSync } from 'fs';
+import path from 'path';
+import type { Logger } from 'homebridge';
+
+const STORE_DIR_NAME = 'rain-switch';
+const STORE_FILE_NAME = 'rainfall.json';
+// Samples further apart than this are treated as a polling gap rather than steady rain.
+const MAX_SAMPLE_GAP_MS = 30 * 60 * 1000;
+
+export const DEFAULT_ACCUMULATION_WINDOW_HOURS = 24;
+
+export interface RainfallSample {
+  ts: number;
+  mmHr: number;
+}
+
+export interface RainfallLog {
+  load(): Promise<void>;
+  record(ts: number, mmHr: number): Promise<void>;
+  totalMm(windowMs: number, now: number): number;
+}
+
+export const makeRainfallLog = (
+  log: Logger,
+  storagePath: string,
+  retentionMs: number,
+  storeName = STORE_FILE_NAME,
+): RainfallLog => {
+  const storeFile = path.join(storagePath, STORE_DIR_NAME, storeName);
+  let samples: RainfallSample[] = [];
+  let saves: Promise<void> = Promise.resolve();
+
+  const prune = (now: number): void => {
+    const cutoff = now - retentionMs - MAX_SAMPLE_GAP_MS;
+    samples = samples.filter((sample) => sample.ts >= cutoff);
+  };
+
+  // Saves run one at a time and replace the file by renaming, so a crash or an overlapping
+  // refresh never leaves a truncated store behind.
+  const save = (): Promise<void> => {
+    const contents = JSON.stringify({ samples });
+    saves = saves.then(async () => {
+      await mkdir(path.dirname(storeFile), { recursive: true });
+      await writeFile(`${storeFile}.tmp`, contents);
+      await rename(`${storeFile}.tmp`, storeFile);
+    }).catch((error: Error) => {
+      log.warn('Failed to save rainfall samples: %s', error.message);
+    });
+    return saves;
+  };
+
+  return {
+    async load(): Promise<void> {
+      try {
+        if (!existsSync(storeFile)) {
+          return;
+        }
+        const contents = await readFile(storeFile, 'utf8');
+        const parsed = JSON.parse(contents) as { samples?: RainfallSample[] };
+        samples = (parsed.samples ?? [])
+          .filter((sample) => Number.isFinite(sample?.ts) && Number.isFinite(sample?.mmHr))
+          .sort((a, b) => a.ts - b.ts);
+        prune(Date.now());
+        log.debug('Loaded %d rainfall samples', samples.length);
+      } catch (error) {
+        log.warn('Failed to load rainfall samples: %s', (error as Error).message);
+        samples = [];
+      }
+    },
+    async record(ts: number, mmHr: number): Promise<void> {
+      const last = samples[samples.length - 1];
+      if (last && ts <= last.ts) {
+        return;
+      }
+      samples.push({ ts, mmHr: Math.max(0, mmHr) });
+      prune(ts);
+      await save();
+    },
+    totalMm(windowMs: number, now: number): number {
+      const windowStart = now - windowMs;
+      let total = 0;
+      for (let index = 0; index < samples.length; index += 1) {
+        const sample = samples[index];
+        const nextTs = samples[index + 1]?.ts ?? now;
+        const start = Math.max(sample.ts, windowStart);
+        const end = Math.min(nextTs, sample.ts + MAX_SAMPLE_GAP_MS, now);
+        if (end <= start) {
+          continue;
+        }
+        total += sample.mmHr * ((end - start) / 3_600_000);
+      }
+      return total;
+    },
+  };
+};
@@ -0,0 +1,203 @@
+import { appendFile, mkdir, readdir, readFile, unlink } from 'fs/promises';
+import { existsSync } from 'fs';
+import path from 'path';
+import type { Dispatcher } from 'undici';
+import type { Logger } from 'homebridge';
+import { currentTime } from './clock';
+
+const STORE_DIR_NAME = 'rain-switch';
+const RECORDINGS_DIR_NAME = 'recordings';
+// Query parameters carrying API keys are stripped before anything is written to disk.
+const SECRET_PARAMS = ['appid', 'apikey', 'key', 'token'];
+export const DEFAULT_RECORDING_RETENTION_DAYS = 7;
+
+export type ProviderId = 'weatherkit' | 'openweathermap' | 'nws' | 'tomorrow' | 'openmeteo';
+
+// The parts of undici's request options and response the providers use, which recorded and
+// replayed responses can stand in for.
+export interface RequestOptions {
+  method?: Dispatcher.HttpMethod;
+  headers?: Record<string, string>;
+  bodyTimeout?: number;
+  headersTimeout?: number;
+}
+
+export interface RequestResult {
+  statusCode: number;
+  headers: Record<string, string | string[] | undefined>;
+  body: { text(): Promise<string> };
+}
+
+export type HttpRequest = (url: string, options?: RequestOptions) => Promise<RequestResult>;
+
+export interface RecordedResponse {
+  ts: number;
+  provider: ProviderId;
+  url: string;
+  statusCode?: number;
+  body?: string;
+  error?: string;
+}
+
+export interface ReplaySource {
+  readonly start: number;
+  readonly end: number;
+  readonly size: number;
+  requestFor(provider: ProviderId): HttpRequest;
+}
+
+export const recordingsDir = (storagePath: string, key: string): string => {
+  return path.join(storagePath, STORE_DIR_NAME, RECORDINGS_DIR_NAME, key);
+};
+
+// Responses are appended to one JSON-lines file per UTC day, written even when the request fails.
+// Day files older than the retention are removed with the first response and at every day rollover.
+export const makeRecordingRequest = (
+  log: Logger,
+  storagePath: string,
+  key: string,
+  provider: ProviderId,
+  http: HttpRequest,
+  retentionDays = DEFAULT_RECORDING_RETENTION_DAYS,
+): HttpRequest => {
+  const dir = recordingsDir(storagePath, key);
+  let prunedDay = '';
+
+  const save = async (entry: RecordedResponse): Promise<void> => {
+    try {
+      await mkdir(dir, { recursive: true });
+      const day = new Date(entry.ts).toISOString().slice(0, 10);
+      if (day !== prunedDay) {
+        prunedDay = day;
+        await pruneRecordings(log, dir, entry.ts - Math.max(1, retentionDays) * 86_400_000);
+      }
+      const file = path.join(dir, `${day}.jsonl`);
+      await appendFile(file, `${JSON.stringify(entry)}\n`);
+    } catch (error) {
+      log.warn('Failed to record %s response: %s', provider, (error as Error).message);
+    }
+  };
+
+  return async (url: string, options?: RequestOptions): Promise<RequestResult> => {
+    const ts = currentTime();
+    const safeUrl = sanitiseUrl(url);
+    let result: RequestResult;
+    try {
+      result = await http(url, options);
+    } catch (error) {
+      await save({ ts, provider, url: safeUrl, error: (error as Error).message });
+      throw error;
+    }
+    const text = await result.body.text();
+    await save({ ts, provider, url: safeUrl, statusCode: result.statusCode, body: text });
+    return { statusCode: result.statusCode, headers: result.headers, body: { text: () => Promise.resolve(text) } };
+  };
+};
+
+// Each request is answered with the latest recording of the same URL made at or before the
+// simulated time, falling back to the same endpoint when query parameters differ.
+export const loadReplaySource = async (
+  log: Logger,
+  storagePath: string,
+  key: string,
+  range: { from?: number; to?: number },
+): Promise<ReplaySource> => {
+  const dir = recordingsDir(storagePath, key);
+  if (!existsSync(dir)) {
+    throw new Error(`No recordings found in ${dir}`);
+  }
+  const entries: RecordedResponse[] = [];
+  for (const file of (await readdir(dir)).filter((name) => name.endsWith('.jsonl')).sort()) {
+    const contents = await readFile(path.join(dir, file), 'utf8');
+    for (const line of contents.split('\n')) {
+      if (!line.trim()) {
+        continue;
+      }
+      try {
+        const entry = JSON.parse(line) as RecordedResponse;
+        if (Number.isFinite(entry.ts) && entry.provider && entry.url) {
+          entries.push(entry);
+        }
+      } catch {
+        log.debug('Skipping malformed recording line in %s', file);
+      }
+    }
+  }
+  const inRange = entries
+    .filter((entry) => (range.from == null || entry.ts >= range.from) && (range.to == null || entry.ts <= range.to))
+    .sort((a, b) => a.ts - b.ts);
+  if (!inRange.length) {
+    throw new Error(`No recordings in ${dir} for the requested time range`);
+  }
+
+  const find = (provider: ProviderId, url: string): RecordedResponse | undefined => {
+    const time = currentTime();
+    const endpoint = url.split('?')[0];
+    let fallback: RecordedResponse | undefined;
+    for (let index = inRange.length - 1; index >= 0; index -= 1) {
+      const entry = inRange[index];
+      if (entry.ts > time || entry.provider !== provider) {
+        continue;
+      }
+      if (entry.url === url) {
+        return entry;
+      }
+      if (!fallback && entry.url.split('?')[0] === endpoint) {
+        fallback = entry;
+      }
+    }
+    return fallback;
+  };
+
+  return {
+    start: inRange[0].ts,
+    end: inRange[inRange.length - 1].ts,
+    size: inRange.length,
+    requestFor(provider: ProviderId): HttpRequest {
+      return (url: string): Promise<RequestResult> => {
+        const entry = find(provider, sanitiseUrl(url));
+        if (!entry) {
+          return Promise.reject(new Error(`No recorded ${provider} response before ${new Date(currentTime()).toISOString()}`));
+        }
+        if (entry.error) {
+          return Promise.reject(new Error(entry.error));
+        }
+        const text = entry.body ?? '';
+        return Promise.resolve({ statusCode: entry.statusCode ?? 200, headers: {}, body: { text: () => Promise.resolve(text) } });
+      };
+    },
+  };
+};
+
+// Several providers share a directory, so a file another one just removed is not an error.
+const pruneRecordings = async (log: Logger, dir: string, cutoff: number): Promise<void> => {
+  const cutoffDay = new Date(cutoff).toISOString().slice(0, 10);
+  for (const file of await readdir(dir)) {
+    const match = /^(\d{4}-\d{2}-\d{2})\.jsonl$/.exec(file);
+    if (!match || match[1] >= cutoffDay) {
+      continue;
+    }
+    try {
+      await unlink(path.join(dir, file));
+      log.debug('Removed old recording %s', file);
+    } catch (error) {
+      if ((error as { code?: string }).code !== 'ENOENT') {
+        log.warn('Failed to remove old recording %s: %s', file, (error as Error).message);
+      }
+    }
+  }
+};
+
+const sanitiseUrl = (url: string): string => {
+  try {
+    const parsed = new URL(url);
+    for (const param of [...parsed.searchParams.keys()]) {
+      if (SECRET_PARAMS.includes(param.toLowerCase())) {
+        parsed.searchParams.delete(param);
+      }
+    }
+    return parsed.toString();
+  } catch {
+    return url;
+  }
+};
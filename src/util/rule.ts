@@ -0,0 +1,492 @@
+import type { WeatherForecastSlice, WeatherNowcast } from '../types';
+import { sumForecastMm } from './forecast';
+import { isRainType } from './precip';
+
+export class RuleSyntaxError extends Error {
+  constructor(message: string, public readonly position: number) {
+    super(message);
+  }
+}
+
+export class RuleEvaluationError extends Error {}
+
+export interface RuleContext {
+  now: WeatherNowcast;
+  forecast: WeatherForecastSlice[];
+  ts: number;
+  rainfallMm(windowHours: number): number;
+}
+
+export interface CompiledRule {
+  readonly source: string;
+  // Longest forecast window referenced by the rule, or 0 when it never looks at the forecast.
+  readonly forecastMinutes: number;
+  // Longest rainfall() window in hours, so the rainfall log keeps enough samples.
+  readonly rainfallHours: number;
+  evaluate(context: RuleContext): boolean;
+}
+
+// Marks the character a RuleSyntaxError points at, for multi-line log output.
+export const describeRuleError = (source: string, error: RuleSyntaxError): string => {
+  return `${error.message} at position ${error.position + 1}\n  ${source}\n  ${' '.repeat(error.position)}^`;
+};
+
+export const compileRule = (source: string): CompiledRule => {
+  const parser = new Parser(tokenize(source));
+  const ast = parser.parseRoot();
+  return {
+    source,
+    forecastMinutes: collectWindow(ast, false),
+    rainfallHours: collectWindow(ast, true) / 60,
+    evaluate(context: RuleContext): boolean {
+      const value = evaluateNode(ast, context);
+      if (typeof value !== 'boolean') {
+        throw new RuleEvaluationError(`Rule must produce true or false, got ${describeValue(value)}`);
+      }
+      return value;
+    },
+  };
+};
+
+// The data a rule reads, for sizing the forecast request and the rainfall log. Invalid rules
+// are reported by the accessory itself; here they simply need nothing.
+export const ruleWindows = (rule: string | undefined): { forecastMinutes: number; rainfallHours: number } => {
+  try {
+    const compiled = rule?.trim() ? compileRule(rule.trim()) : null;
+    return { forecastMinutes: compiled?.forecastMinutes ?? 0, rainfallHours: compiled?.rainfallHours ?? 0 };
+  } catch {
+    return { forecastMinutes: 0, rainfallHours: 0 };
+  }
+};
+
+type TokenKind = 'number' | 'duration' | 'string' | 'identifier' | 'operator' | 'punctuation' | 'end';
+
+interface Token {
+  kind: TokenKind;
+  text: string;
+  value?: number;
+  position: number;
+}
+
+type SeriesName = 'precip' | 'pop' | 'rain' | 'snow';
+
+type Node =
+  | { kind: 'literal'; value: number | string | boolean; position: number }
+  | { kind: 'duration'; minutes: number; position: number }
+  | { kind: 'nowcast'; field: NowcastField; position: number }
+  | { kind: 'series'; name: SeriesName; position: number }
+  | { kind: 'unary'; operator: '!' | '-'; operand: Node; position: number }
+  | { kind: 'binary'; operator: string; left: Node; right: Node; position: number }
+  | { kind: 'call'; name: FunctionName; args: Node[]; position: number };
+
+type NowcastField = 'precipMmHr' | 'pop' | 'type' | 'temperatureC';
+type FunctionName = 'max' | 'min' | 'avg' | 'sum' | 'rainfall';
+type Value = number | string | boolean | null;
+
+const NOWCAST_FIELDS: NowcastField[] = ['precipMmHr', 'pop', 'type', 'temperatureC'];
+const SERIES_NAMES: SeriesName[] = ['precip', 'pop', 'rain', 'snow'];
+const FUNCTION_NAMES: FunctionName[] = ['max', 'min', 'avg', 'sum', 'rainfall'];
+const DURATION_MINUTES: Record<string, number> = { s: 1 / 60, m: 1, h: 60, d: 1440 };
+const OPERATORS = ['&&', '||', '==', '!=', '<=', '>=', '<', '>', '!', '+', '-', '*', '/'];
+const COMPARISONS = ['==', '!=', '<', '<=', '>', '>='];
+// Forecasts rarely reach further than two days, so longer windows would silently be truncated.
+const MAX_WINDOW_MINUTES = 48 * 60;
+
+const tokenize = (source: string): Token[] => {
+  const tokens: Token[] = [];
+  let index = 0;
+  while (index < source.length) {
+    const char = source[index];
+    if (/\s/.test(char)) {
+      index += 1;
+      continue;
+    }
+    const start = index;
+    if (/[0-9.]/.test(char)) {
+      const match = /^(\d+(?:\.\d+)?|\.\d+)([a-zA-Z]*)/.exec(source.slice(index));
+      if (!match) {
+        throw new RuleSyntaxError(`Unexpected "${char}"`, start);
+      }
+      index += match[0].length;
+      const value = Number(match[1]);
+      if (!match[2]) {
+        tokens.push({ kind: 'number', text: match[0], value, position: start });
+      } else if (match[2] in DURATION_MINUTES) {
+        tokens.push({ kind: 'duration', text: match[0], value: value * DURATION_MINUTES[match[2]], position: start });
+      } else {
+        throw new RuleSyntaxError(`Unknown duration unit "${match[2]}" (use s, m, h or d)`, start + match[1].length);
+      }
+      continue;
+    }
+    if (/[a-zA-Z_]/.test(char)) {
+      const match = /^[a-zA-Z_][a-zA-Z0-9_]*(?:\.[a-zA-Z_][a-zA-Z0-9_]*)*/.exec(source.slice(index))!;
+      index += match[0].length;
+      tokens.push({ kind: 'identifier', text: match[0], position: start });
+      continue;
+    }
+    if (char === '\'' || char === '"') {
+      const end = source.indexOf(char, index + 1);
+      if (end < 0) {
+        throw new RuleSyntaxError('Unterminated string', start);
+      }
+      tokens.push({ kind: 'string', text: source.slice(index + 1, end), position: start });
+      index = end + 1;
+      continue;
+    }
+    if (char === '(' || char === ')' || char === ',') {
+      tokens.push({ kind: 'punctuation', text: char, position: start });
+      index += 1;
+      continue;
+    }
+    const operator = OPERATORS.find((candidate) => source.startsWith(candidate, index));
+    if (!operator) {
+      throw new RuleSyntaxError(`Unexpected "${char}"`, start);
+    }
+    tokens.push({ kind: 'operator', text: operator, position: start });
+    index += operator.length;
+  }
+  tokens.push({ kind: 'end', text: '', position: source.length });
+  return tokens;
+};
+
+class Parser {
+  private index = 0;
+
+  constructor(private readonly tokens: Token[]) {}
+
+  parseRoot(): Node {
+    if (this.peek().kind === 'end') {
+      throw new RuleSyntaxError('Rule is empty', 0);
+    }
+    const node = this.parseOr();
+    const trailing = this.peek();
+    if (trailing.kind !== 'end') {
+      throw new RuleSyntaxError(`Unexpected "${trailing.text}"`, trailing.position);
+    }
+    return node;
+  }
+
+  private parseOr(): Node {
+    let left = this.parseAnd();
+    while (this.matchOperator('||')) {
+      const operator = this.previous();
+      left = { kind: 'binary', operator: '||', left, right: this.parseAnd(), position: operator.position };
+    }
+    return left;
+  }
+
+  private parseAnd(): Node {
+    let left = this.parseComparison();
+    while (this.matchOperator('&&')) {
+      const operator = this.previous();
+      left = { kind: 'binary', operator: '&&', left, right: this.parseComparison(), position: operator.position };
+    }
+    return left;
+  }
+
+  private parseComparison(): Node {
+    const left = this.parseAdditive();
+    if (this.matchOperator(...COMPARISONS)) {
+      const operator = this.previous();
+      const right = this.parseAdditive();
+      const next = this.peek();
+      if (next.kind === 'operator' && COMPARISONS.includes(next.text)) {
+        throw new RuleSyntaxError('Comparisons cannot be chained; combine them with && or ||', next.position);
+      }
+      return { kind: 'binary', operator: operator.text, left, right, position: operator.position };
+    }
+    return left;
+  }
+
+  private parseAdditive(): Node {
+    let left = this.parseMultiplicative();
+    while (this.matchOperator('+', '-')) {
+      const operator = this.previous();
+      left = { kind: 'binary', operator: operator.text, left, right: this.parseMultiplicative(), position: operator.position };
+    }
+    return left;
+  }
+
+  private parseMultiplicative(): Node {
+    let left = this.parseUnary();
+    while (this.matchOperator('*', '/')) {
+      const operator = this.previous();
+      left = { kind: 'binary', operator: operator.text, left, right: this.parseUnary(), position: operator.position };
+    }
+    return left;
+  }
+
+  private parseUnary(): Node {
+    if (this.matchOperator('!', '-')) {
+      const operator = this.previous();
+      return { kind: 'unary', operator: operator.text as '!' | '-', operand: this.parseUnary(), position: operator.position };
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): Node {
+    const token = this.advance();
+    switch (token.kind) {
+      case 'number':
+        return { kind: 'literal', value: token.value!, position: token.position };
+      case 'duration':
+        return { kind: 'duration', minutes: token.value!, position: token.position };
+      case 'string':
+        return { kind: 'literal', value: token.text, position: token.position };
+      case 'identifier':
+        if (this.peek().text === '(') {
+          return this.parseCall(token);
+        }
+        return resolveIdentifier(token);
+      case 'punctuation':
+        if (token.text === '(') {
+          const inner = this.parseOr();
+          this.expect(')');
+          return inner;
+        }
+        break;
+      case 'end':
+        throw new RuleSyntaxError('Unexpected end of rule', token.position);
+      default:
+        break;
+    }
+    throw new RuleSyntaxError(`Unexpected "${token.text}"`, token.position);
+  }
+
+  private parseCall(name: Token): Node {
+    if (!FUNCTION_NAMES.includes(name.text as FunctionName)) {
+      throw new RuleSyntaxError(`Unknown function "${name.text}" (expected ${FUNCTION_NAMES.join(', ')})`, name.position);
+    }
+    this.expect('(');
+    const args: Node[] = [];
+    if (this.peek().text !== ')') {
+      do {
+        args.push(this.parseOr());
+      } while (this.matchPunctuation(','));
+    }
+    this.expect(')');
+    const call: Node = { kind: 'call', name: name.text as FunctionName, args, position: name.position };
+    validateCall(call);
+    return call;
+  }
+
+  private expect(text: string): void {
+    const token = this.advance();
+    if (token.text !== text || token.kind === 'string') {
+      throw new RuleSyntaxError(token.kind === 'end' ? `Expected "${text}" before end of rule` : `Expected "${text}"`, token.position);
+    }
+  }
+
+  private matchOperator(...operators: string[]): boolean {
+    const token = this.peek();
+    if (token.kind === 'operator' && operators.includes(token.text)) {
+      this.index += 1;
+      return true;
+    }
+    return false;
+  }
+
+  private matchPunctuation(text: string): boolean {
+    const token = this.peek();
+    if (token.kind === 'punctuation' && token.text === text) {
+      this.index += 1;
+      return true;
+    }
+    return false;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private previous(): Token {
+    return this.tokens[this.index - 1];
+  }
+
+  private advance(): Token {
+    const token = this.tokens[this.index];
+    if (token.kind !== 'end') {
+      this.index += 1;
+    }
+    return token;
+  }
+}
+
+const resolveIdentifier = (token: Token): Node => {
+  const { text, position } = token;
+  if (text === 'true' || text === 'false') {
+    return { kind: 'literal', value: text === 'true', position };
+  }
+  const [head, field, ...rest] = text.split('.');
+  const nowcastField = field === undefined ? head : head === 'now' ? field : undefined;
+  if (!rest.length && nowcastField && NOWCAST_FIELDS.includes(nowcastField as NowcastField)) {
+    return { kind: 'nowcast', field: nowcastField as NowcastField, position };
+  }
+  if (!rest.length && head === 'forecast' && SERIES_NAMES.includes(field as SeriesName)) {
+    return { kind: 'series', name: field as SeriesName, position };
+  }
+  if (head === 'forecast') {
+    throw new RuleSyntaxError(`Unknown forecast series "${text}" (expected ${SERIES_NAMES.map((name) => `forecast.${name}`).join(', ')})`, position);
+  }
+  throw new RuleSyntaxError(`Unknown field "${text}" (expected ${NOWCAST_FIELDS.map((name) => `now.${name}`).join(', ')})`, position);
+};
+
+const validateCall = (call: Extract<Node, { kind: 'call' }>): void => {
+  const [series, window] = call.args;
+  if (call.name === 'rainfall') {
+    if (call.args.length !== 1 || series.kind !== 'duration') {
+      throw new RuleSyntaxError('rainfall() takes a single window such as rainfall(24h)', call.position);
+    }
+    return;
+  }
+  if (call.args.length !== 2 || series.kind !== 'series') {
+    throw new RuleSyntaxError(`${call.name}() takes a forecast series and a window, for example ${call.name}(forecast.precip, 30m)`, call.position);
+  }
+  if (window.kind !== 'duration') {
+    throw new RuleSyntaxError('Window must be a duration such as 30m or 2h', window.position);
+  }
+  if (window.minutes <= 0 || window.minutes > MAX_WINDOW_MINUTES) {
+    throw new RuleSyntaxError(`Window must be between 1m and ${MAX_WINDOW_MINUTES / 60}h`, window.position);
+  }
+  if (call.name === 'sum' && series.name === 'pop') {
+    throw new RuleSyntaxError('sum() only applies to precipitation series', series.position);
+  }
+};
+
+const collectWindow = (node: Node, rainfall: boolean): number => {
+  switch (node.kind) {
+    case 'unary':
+      return collectWindow(node.operand, rainfall);
+    case 'binary':
+      return Math.max(collectWindow(node.left, rainfall), collectWindow(node.right, rainfall));
+    case 'call': {
+      const window = node.args[node.name === 'rainfall' ? 0 : 1];
+      if ((node.name === 'rainfall') === rainfall && window.kind === 'duration') {
+        return Math.ceil(window.minutes);
+      }
+      return 0;
+    }
+    default:
+      return 0;
+  }
+};
+
+const evaluateNode = (node: Node, context: RuleContext): Value => {
+  switch (node.kind) {
+    case 'literal':
+      return node.value;
+    case 'duration':
+      return node.minutes;
+    case 'nowcast':
+      return context.now[node.field] ?? null;
+    case 'series':
+      throw new RuleEvaluationError(`forecast.${node.name} must be wrapped in max(), min(), avg() or sum()`);
+    case 'unary': {
+      const operand = evaluateNode(node.operand, context);
+      if (node.operator === '!') {
+        return !expectBoolean(operand, '!');
+      }
+      return operand === null ? null : -expectNumber(operand, '-');
+    }
+    case 'binary':
+      return evaluateBinary(node, context);
+    case 'call':
+      return evaluateCall(node, context);
+  }
+};
+
+const evaluateBinary = (node: Extract<Node, { kind: 'binary' }>, context: RuleContext): Value => {
+  if (node.operator === '&&') {
+    return expectBoolean(evaluateNode(node.left, context), '&&') && expectBoolean(evaluateNode(node.right, context), '&&');
+  }
+  if (node.operator === '||') {
+    return expectBoolean(evaluateNode(node.left, context), '||') || expectBoolean(evaluateNode(node.right, context), '||');
+  }
+  const left = evaluateNode(node.left, context);
+  const right = evaluateNode(node.right, context);
+  if (node.operator === '==' || node.operator === '!=') {
+    return (left === right) === (node.operator === '==');
+  }
+  // Missing values (no PoP, no temperature, empty window) make every ordering false.
+  if (left === null || right === null) {
+    return COMPARISONS.includes(node.operator) ? false : null;
+  }
+  const a = expectNumber(left, node.operator);
+  const b = expectNumber(right, node.operator);
+  switch (node.operator) {
+    case '<':
+      return a < b;
+    case '<=':
+      return a <= b;
+    case '>':
+      return a > b;
+    case '>=':
+      return a >= b;
+    case '+':
+      return a + b;
+    case '-':
+      return a - b;
+    case '*':
+      return a * b;
+    case '/':
+      return b === 0 ? null : a / b;
+    default:
+      throw new RuleEvaluationError(`Unsupported operator "${node.operator}"`);
+  }
+};
+
+const evaluateCall = (node: Extract<Node, { kind: 'call' }>, context: RuleContext): Value => {
+  const [series, window] = node.args as [Node, Node];
+  if (node.name === 'rainfall') {
+    return context.rainfallMm((series as Extract<Node, { kind: 'duration' }>).minutes / 60);
+  }
+  const name = (series as Extract<Node, { kind: 'series' }>).name;
+  const minutes = (window as Extract<Node, { kind: 'duration' }>).minutes;
+  const slices = context.forecast.filter((slice) => slice.minutesFromNow >= 0 && slice.minutesFromNow <= minutes);
+  if (node.name === 'sum') {
+    const matching = slices.map((slice) => ({ ...slice, precipMmHr: seriesValue(name, slice) ?? 0 }));
+    return sumForecastMm(matching, minutes, context.ts);
+  }
+  const values = slices.map((slice) => seriesValue(name, slice)).filter((value): value is number => value !== null);
+  if (!values.length) {
+    return null;
+  }
+  if (node.name === 'max') {
+    return Math.max(...values);
+  }
+  if (node.name === 'min') {
+    return Math.min(...values);
+  }
+  return values.reduce((total, value) => total + value, 0) / values.length;
+};
+
+const seriesValue = (name: SeriesName, slice: WeatherForecastSlice): number | null => {
+  switch (name) {
+    case 'precip':
+      return slice.precipMmHr;
+    case 'pop':
+      return slice.pop ?? null;
+    case 'rain':
+      return isRainType(slice.type) ? slice.precipMmHr : 0;
+    case 'snow':
+      return slice.type === 'snow' ? slice.precipMmHr : 0;
+  }
+};
+
+const expectBoolean = (value: Value, operator: string): boolean => {
+  if (typeof value !== 'boolean') {
+    throw new RuleEvaluationError(`"${operator}" needs true or false, got ${describeValue(value)}`);
+  }
+  return value;
+};
+
+const expectNumber = (value: Value, operator: string): number => {
+  if (typeof value !== 'number') {
+    throw new RuleEvaluationError(`"${operator}" needs a number, got ${describeValue(value)}`);
+  }
+  return value;
+};
+
+const describeValue = (value: Value): string => {
+  return typeof value === 'string' ? `"${value}"` : String(value);
+};
@@ -0,0 +1,205 @@
+import type { ScheduleBehaviour, ScheduleWindowConfig, Weekday } from '../types';
+
+export interface ScheduleLocation {
+  lat: number;
+  lon: number;
+}
+
+export interface Schedule {
+  // Behaviour of the first window covering `now`, or null when no window applies.
+  activeBehaviour(now: number, location: ScheduleLocation | null): ScheduleBehaviour | null;
+}
+
+type TimeSpec =
+  | { kind: 'clock'; minutes: number }
+  | { kind: 'sun'; event: 'sunrise' | 'sunset'; offsetMinutes: number };
+
+interface ScheduleWindow {
+  days: Set<number>;
+  start: TimeSpec;
+  end: TimeSpec;
+  behaviour: ScheduleBehaviour;
+}
+
+const WEEKDAYS: Weekday[] = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+const DAY_MS = 86_400_000;
+
+export const parseTimeString = (value: string): number | null => {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(value.trim());
+  if (!match) {
+    return null;
+  }
+  const hours = parseInt(match[1], 10);
+  const minutes = parseInt(match[2], 10);
+  if (hours < 0 || hours >= 24 || minutes < 0 || minutes >= 60) {
+    return null;
+  }
+  return hours * 60 + minutes;
+};
+
+export interface QuietHours {
+  start: number;
+  end: number;
+}
+
+export const parseQuietHours = (config: { start?: string; end?: string } | undefined): QuietHours | undefined => {
+  if (!config?.start || !config?.end) {
+    return undefined;
+  }
+  const start = parseTimeString(config.start);
+  const end = parseTimeString(config.end);
+  if (start == null || end == null) {
+    return undefined;
+  }
+  return { start, end };
+};
+
+// Quiet hours follow the host's local clock and may wrap past midnight.
+export const isWithinQuietHours = (quietHours: QuietHours | undefined, now: number): boolean => {
+  if (!quietHours) {
+    return false;
+  }
+  const date = new Date(now);
+  const minutes = date.getHours() * 60 + date.getMinutes();
+  const { start, end } = quietHours;
+  if (start <= end) {
+    return minutes >= start && minutes < end;
+  }
+  return minutes >= start || minutes < end;
+};
+
+// Invalid windows are reported through `warn` and skipped rather than failing the accessory.
+export const makeSchedule = (windows: ScheduleWindowConfig[], warn: (message: string) => void): Schedule => {
+  const parsed: ScheduleWindow[] = [];
+  windows.forEach((window, index) => {
+    const start = parseTimeSpec(window.start);
+    const end = parseTimeSpec(window.end);
+    if (!start || !end) {
+      warn(`schedule window ${index + 1} has an invalid ${start ? 'end' : 'start'} time "${start ? window.end : window.start}"`);
+      return;
+    }
+    const days = window.days?.length ? window.days : WEEKDAYS;
+    const unknownDay = days.find((day) => !WEEKDAYS.includes(day));
+    if (unknownDay) {
+      warn(`schedule window ${index + 1} has an unknown day "${unknownDay}"`);
+      return;
+    }
+    parsed.push({
+      days: new Set(days.map((day) => WEEKDAYS.indexOf(day))),
+      start,
+      end,
+      behaviour: window.behaviour ?? 'hold',
+    });
+  });
+  let warnedNoLocation = false;
+
+  return {
+    activeBehaviour(now: number, location: ScheduleLocation | null): ScheduleBehaviour | null {
+      for (const window of parsed) {
+        if ((window.start.kind === 'sun' || window.end.kind === 'sun') && !location) {
+          if (!warnedNoLocation) {
+            warn('sunrise/sunset schedule windows are ignored until the location is resolved');
+            warnedNoLocation = true;
+          }
+          continue;
+        }
+        if (isWithinWindow(window, now, location)) {
+          return window.behaviour;
+        }
+      }
+      return null;
+    },
+  };
+};
+
+const parseTimeSpec = (value: string | undefined): TimeSpec | null => {
+  if (typeof value !== 'string') {
+    return null;
+  }
+  const clock = parseTimeString(value);
+  if (clock != null) {
+    return { kind: 'clock', minutes: clock };
+  }
+  const match = /^(sunrise|sunset)\s*(?:([+-])\s*(\d{1,3}))?$/i.exec(value.trim());
+  if (!match) {
+    return null;
+  }
+  const offset = match[3] ? parseInt(match[3], 10) * (match[2] === '-' ? -1 : 1) : 0;
+  return { kind: 'sun', event: match[1].toLowerCase() as 'sunrise' | 'sunset', offsetMinutes: offset };
+};
+
+// A window belongs to the day it starts on, so one that crosses midnight is also checked
+// from the previous day. Clock times are built from local calendar fields, which keeps
+// them on the wall clock across DST changes.
+const isWithinWindow = (window: ScheduleWindow, now: number, location: ScheduleLocation | null): boolean => {
+  const today = new Date(now);
+  for (const dayOffset of [0, -1]) {
+    const day = new Date(today.getFullYear(), today.getMonth(), today.getDate() + dayOffset);
+    if (!window.days.has(day.getDay())) {
+      continue;
+    }
+    const start = resolveTime(window.start, day, location);
+    let end = resolveTime(window.end, day, location);
+    if (start == null || end == null) {
+      continue;
+    }
+    if (end <= start) {
+      const nextDay = new Date(day.getFullYear(), day.getMonth(), day.getDate() + 1);
+      end = resolveTime(window.end, nextDay, location);
+      if (end == null) {
+        continue;
+      }
+    }
+    if (now >= start && now < end) {
+      return true;
+    }
+  }
+  return false;
+};
+
+const resolveTime = (spec: TimeSpec, day: Date, location: ScheduleLocation | null): number | null => {
+  if (spec.kind === 'clock') {
+    return new Date(day.getFullYear(), day.getMonth(), day.getDate(), Math.floor(spec.minutes / 60), spec.minutes % 60).getTime();
+  }
+  if (!location) {
+    return null;
+  }
+  const noon = new Date(day.getFullYear(), day.getMonth(), day.getDate(), 12).getTime();
+  const times = computeSunTimes(noon, location.lat, location.lon);
+  const base = spec.event === 'sunrise' ? times.sunrise : times.sunset;
+  return base == null ? null : base + spec.offsetMinutes * 60_000;
+};
+
+const RAD = Math.PI / 180;
+const J1970 = 2440588;
+const J2000 = 2451545;
+const J0 = 0.0009;
+const OBLIQUITY = RAD * 23.4397;
+// Apparent sunrise/sunset: the sun's upper limb on the horizon, including refraction.
+const SUN_ALTITUDE = RAD * -0.833;
+
+// Sunrise equation as used by NOAA and suncalc; accurate to about a minute. Returns
+// null for polar day or night, when the sun does not cross the horizon.
+const computeSunTimes = (ts: number, lat: number, lon: number): { sunrise: number | null; sunset: number | null } => {
+  const lw = RAD * -lon;
+  const phi = RAD * lat;
+  const days = ts / DAY_MS - 0.5 + J1970 - J2000;
+  const cycle = Math.round(days - J0 - lw / (2 * Math.PI));
+  const approxNoon = J0 + lw / (2 * Math.PI) + cycle;
+  const anomaly = RAD * (357.5291 + 0.98560028 * approxNoon);
+  const center = RAD * (1.9148 * Math.sin(anomaly) + 0.02 * Math.sin(2 * anomaly) + 0.0003 * Math.sin(3 * anomaly));
+  const longitude = anomaly + center + RAD * 102.9372 + Math.PI;
+  const declination = Math.asin(Math.sin(OBLIQUITY) * Math.sin(longitude));
+  const transit = (approx: number): number => J2000 + approx + 0.0053 * Math.sin(anomaly) - 0.0069 * Math.sin(2 * longitude);
+
+  const cosHourAngle = (Math.sin(SUN_ALTITUDE) - Math.sin(phi) * Math.sin(declination)) / (Math.cos(phi) * Math.cos(declination));
+  if (cosHourAngle < -1 || cosHourAngle > 1) {
+    return { sunrise: null, sunset: null };
+  }
+  const hourAngle = Math.acos(cosHourAngle);
+  const noon = transit(approxNoon);
+  const set = transit(J0 + (hourAngle + lw) / (2 * Math.PI) + cycle);
+  const rise = noon - (set - noon);
+  const toMs = (julian: number): number => Math.round((julian + 0.5 - J1970) * DAY_MS);
+  return { sunrise: toMs(rise), sunset: toMs(set) };
+};
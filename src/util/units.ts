@@ -0,0 +1,123 @@
+import type { DepthField, RainAccessoryConfig, RainAccessoryConfigInput, RateField, UnitSystem, UnitValue } from '../types';
+
+const MM_PER_INCH = 25.4;
+
+const RATE_FIELDS: RateField[] = ['thresholdMmPerHr', 'offThresholdMmPerHr', 'intensityThresholdMmPerHr'];
+const DEPTH_FIELDS: DepthField[] = ['accumulationThresholdMm', 'pastThresholdMm', 'forecastThresholdMm'];
+
+// Factors to millimetres (per hour for rates).
+const RATE_UNITS: Record<string, number> = {
+  'mm/h': 1,
+  'mm/hr': 1,
+  'in/h': MM_PER_INCH,
+  'in/hr': MM_PER_INCH,
+};
+const DEPTH_UNITS: Record<string, number> = {
+  mm: 1,
+  cm: 10,
+  in: MM_PER_INCH,
+};
+
+export interface UnitFormatter {
+  readonly system: UnitSystem;
+  readonly rateUnit: string;
+  readonly depthUnit: string;
+  rateValue(mmHr: number): number;
+  depthValue(mm: number): number;
+  rate(mmHr: number): string;
+  depth(mm: number): string;
+  temperature(celsius: number): string;
+}
+
+// Everything inside the plugin stays metric; this is the only place values cross into the user's units.
+export const makeUnitFormatter = (system: UnitSystem = 'metric'): UnitFormatter => {
+  const imperial = system === 'imperial';
+  const rateValue = (mmHr: number): number => (imperial ? mmHr / MM_PER_INCH : mmHr);
+  const depthValue = (mm: number): number => (imperial ? mm / MM_PER_INCH : mm);
+  return {
+    system: imperial ? 'imperial' : 'metric',
+    rateUnit: imperial ? 'in/h' : 'mm/h',
+    depthUnit: imperial ? 'in' : 'mm',
+    rateValue,
+    depthValue,
+    rate(mmHr: number): string {
+      return imperial ? `${rateValue(mmHr).toFixed(3)} in/h` : `${mmHr.toFixed(2)} mm/h`;
+    },
+    depth(mm: number): string {
+      return imperial ? `${depthValue(mm).toFixed(2)} in` : `${mm.toFixed(1)} mm`;
+    },
+    temperature(celsius: number): string {
+      return imperial ? `${(celsius * 9 / 5 + 32).toFixed(1)}°F` : `${celsius.toFixed(1)}°C`;
+    },
+  };
+};
+
+export const parseRate = (value: UnitValue | undefined, system: UnitSystem): number | undefined => {
+  return parseQuantity(value, RATE_UNITS, system);
+};
+
+export const parseDepth = (value: UnitValue | undefined, system: UnitSystem): number | undefined => {
+  return parseQuantity(value, DEPTH_UNITS, system);
+};
+
+// Converts every threshold to mm/h or mm. Values that cannot be read are reported through
+// `warn` and dropped, so the accessory falls back to its default.
+export const normaliseAccessoryUnits = (
+  config: RainAccessoryConfigInput,
+  system: UnitSystem,
+  warn: (message: string) => void,
+): RainAccessoryConfig => {
+  const normalised = { ...config } as RainAccessoryConfig;
+  const bareImperial: string[] = [];
+  const convert = (field: RateField | DepthField, parse: typeof parseRate): void => {
+    if (system === 'imperial' && typeof config[field] === 'number') {
+      bareImperial.push(field);
+    }
+    try {
+      const value = parse(config[field], system);
+      if (value === undefined) {
+        delete normalised[field];
+      } else {
+        normalised[field] = value;
+      }
+    } catch (error) {
+      warn(`${field}: ${(error as Error).message}; using the default`);
+      delete normalised[field];
+    }
+  };
+  RATE_FIELDS.forEach((field) => convert(field, parseRate));
+  DEPTH_FIELDS.forEach((field) => convert(field, parseDepth));
+  // Field names still say mm, so a config written for metric units would silently grow 25.4 times.
+  if (bareImperial.length) {
+    warn(`reads ${bareImperial.join(', ')} in inches because units is imperial; add "mm" or "mm/h" to keep millimetres`);
+  }
+  return normalised;
+};
+
+const parseQuantity = (value: UnitValue | undefined, units: Record<string, number>, system: UnitSystem): number | undefined => {
+  if (value === undefined || value === null || value === '') {
+    return undefined;
+  }
+  const defaultFactor = system === 'imperial' ? MM_PER_INCH : 1;
+  if (typeof value === 'number') {
+    if (!Number.isFinite(value)) {
+      throw new Error(`"${value}" is not a number`);
+    }
+    return value * defaultFactor;
+  }
+  // Keep in step with the threshold patterns in config.schema.json.
+  const match = /^\s*((?:\d+(?:\.\d*)?|\.\d+)(?:e[+-]?\d+)?)\s*([a-z/]*)\s*$/i.exec(String(value));
+  if (!match) {
+    throw new Error(`"${value}" is not a number with an optional unit`);
+  }
+  const amount = parseFloat(match[1]);
+  const unit = match[2].toLowerCase();
+  if (!unit) {
+    return amount * defaultFactor;
+  }
+  const factor = units[unit];
+  if (factor === undefined) {
+    throw new Error(`unknown unit "${match[2]}" in "${value}" (expected ${Object.keys(units).join(', ')})`);
+  }
+  return amount * factor;
+};